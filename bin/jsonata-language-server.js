@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Editors other than VS Code start the server with this script; stdio is the default transport
+if (!process.argv.some(arg => arg === '--stdio' || arg === '--node-ipc' || arg.startsWith('--socket=') || arg.startsWith('--pipe='))) {
+	process.argv.push('--stdio');
+}
+require('../dist/server.js');
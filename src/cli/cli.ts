@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { expandFilePatterns } from './files';
+import { countProblems, FileResult, formatResults, REPORT_FORMATS, ReportFormat } from './reporters';
+import { LintConfigLoader } from '../lint/LintConfigLoader';
+import { Linter } from '../lint/Linter';
+import { AssociationTag, findHeaderAssociation, findSiblingSampleFile, JsonFileCache } from '../validation/associations';
+import { createPathChecks, ExpressionValidator } from '../validation/ExpressionValidator';
+
+const USAGE = `Usage: jsonata-validate [options] <file | directory | glob>...
+
+Validates JSONata templates the way the VS Code extension does: syntax errors, field paths
+against @schema / @sample associations, function calls and lint rules (.jsonatalintrc).
+Directories are searched for *.jsonata files.
+
+Options:
+  -f, --format <format>       Output format: text (default), json or sarif
+  -o, --output <file>         Write the report to a file instead of stdout
+      --schema <file>         JSON Schema for templates without an @schema comment
+      --sample <file>         Sample input for templates without an @sample comment or sibling *.sample.json
+      --allow-function <name> A function registered by your runtime, e.g. $lookupCustomer (repeatable)
+      --no-lint               Skip the lint rules
+      --max-warnings <count>  Also fail when there are more warnings than this
+  -h, --help                  Show this help
+
+Exit status: 0 when there are no errors, 1 when there are, 2 when the arguments are wrong.
+`;
+
+/**
+ * Where the report and messages go; the process streams unless a caller captures them
+ */
+export interface CliOutput {
+    stdout(text: string): void;
+    stderr(text: string): void;
+}
+
+const PROCESS_OUTPUT: CliOutput = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text)
+};
+
+interface CliOptions {
+    patterns: string[];
+    format: ReportFormat;
+    output?: string;
+    schema?: string;
+    sample?: string;
+    functionAllowlist: string[];
+    lint: boolean;
+    maxWarnings?: number;
+}
+
+/**
+ * Run the command line validator and return its exit status
+ */
+export function main(args: string[], cwd: string = process.cwd(), output: CliOutput = PROCESS_OUTPUT): number {
+    let options: CliOptions | undefined;
+    try {
+        options = parseOptions(args);
+    } catch (error: any) {
+        output.stderr(`jsonata-validate: ${error.message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (!options) {
+        output.stdout(USAGE);
+        return 0;
+    }
+
+    const files = expandFilePatterns(options.patterns, cwd);
+    if (files.length === 0) {
+        output.stderr(`jsonata-validate: no files match ${options.patterns.join(' ')}\n`);
+        return 2;
+    }
+
+    const results = validateFiles(files, options, cwd, output);
+    const report = formatResults(results, options.format, cwd);
+    if (options.output) {
+        fs.writeFileSync(path.resolve(cwd, options.output), report);
+    } else {
+        output.stdout(report);
+    }
+
+    const tooManyWarnings = options.maxWarnings !== undefined && countProblems(results, 'warning') > options.maxWarnings;
+    return countProblems(results, 'error') > 0 || tooManyWarnings ? 1 : 0;
+}
+
+/**
+ * Parse the arguments, returning undefined when help was asked for
+ */
+function parseOptions(args: string[]): CliOptions | undefined {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'format': { type: 'string', short: 'f', default: 'text' },
+            'output': { type: 'string', short: 'o' },
+            'schema': { type: 'string' },
+            'sample': { type: 'string' },
+            'allow-function': { type: 'string', multiple: true, default: [] },
+            'no-lint': { type: 'boolean', default: false },
+            'max-warnings': { type: 'string' },
+            'help': { type: 'boolean', short: 'h', default: false }
+        }
+    });
+
+    if (values.help) {
+        return undefined;
+    }
+
+    const format = values.format as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+        throw new Error(`unknown format '${values.format}', expected one of ${REPORT_FORMATS.join(', ')}`);
+    }
+
+    let maxWarnings: number | undefined;
+    if (values['max-warnings'] !== undefined) {
+        maxWarnings = Number(values['max-warnings']);
+        if (!Number.isInteger(maxWarnings) || maxWarnings < 0) {
+            throw new Error(`--max-warnings expects a count, got '${values['max-warnings']}'`);
+        }
+    }
+
+    if (positionals.length === 0) {
+        throw new Error('no files given');
+    }
+
+    return {
+        patterns: positionals,
+        format,
+        output: values.output,
+        schema: values.schema,
+        sample: values.sample,
+        functionAllowlist: values['allow-function'].map(name => name.startsWith('$') ? name.substring(1) : name),
+        lint: !values['no-lint'],
+        maxWarnings
+    };
+}
+
+function validateFiles(files: string[], options: CliOptions, cwd: string, output: CliOutput): FileResult[] {
+    const validator = new ExpressionValidator(options.lint ? new Linter() : new Linter([]));
+    const lintConfigLoader = new LintConfigLoader(message => output.stderr(`jsonata-validate: ${message}\n`));
+    const jsonFiles = new JsonFileCache();
+
+    // A header comment in the template wins over the command line, as it does in the editor
+    const findAssociation = (text: string, filePath: string, tag: AssociationTag, fallback?: string) => {
+        const header = findHeaderAssociation(text, tag);
+        if (header) {
+            return path.resolve(path.dirname(filePath), header);
+        }
+        return fallback ? path.resolve(cwd, fallback) : undefined;
+    };
+    const loadJsonFile = (fsPath: string | undefined, filePath: string) => {
+        if (fsPath && !fs.existsSync(fsPath)) {
+            output.stderr(`jsonata-validate: ${path.relative(cwd, fsPath)}, associated with ${path.relative(cwd, filePath)}, does not exist\n`);
+            return undefined;
+        }
+        return fsPath ? jsonFiles.load(fsPath) : undefined;
+    };
+
+    return files.map(filePath => {
+        const text = fs.readFileSync(filePath, 'utf8');
+        const schemaPath = findAssociation(text, filePath, 'schema', options.schema);
+        const samplePath = findAssociation(text, filePath, 'sample', options.sample) ?? findSiblingSampleFile(filePath);
+
+        const problems = validator.validate(text, {
+            pathChecks: createPathChecks(loadJsonFile(schemaPath, filePath), loadJsonFile(samplePath, filePath)),
+            functionAllowlist: options.functionAllowlist,
+            lintRules: options.lint ? lintConfigLoader.load(filePath, cwd) : {},
+            maxNumberOfProblems: Infinity
+        });
+
+        problems.sort((a, b) => a.line - b.line || a.startChar - b.startChar);
+        return { filePath, problems };
+    });
+}
+
+if (require.main === module) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+/** Directories never worth searching for templates */
+const SKIPPED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * Expand command line arguments into the files to validate. An argument is a file, a directory
+ * searched for `*.jsonata` files, or a glob such as `mappings/**\/*.jsonata` relative to `cwd`.
+ * Returns absolute paths, sorted, without duplicates.
+ */
+export function expandFilePatterns(patterns: string[], cwd: string): string[] {
+	const files = new Set<string>();
+
+	for (const pattern of patterns) {
+		const absolute = path.resolve(cwd, pattern);
+		if (!hasMagic(pattern) && fs.existsSync(absolute)) {
+			if (fs.statSync(absolute).isDirectory()) {
+				walk(absolute, file => file.endsWith('.jsonata')).forEach(file => files.add(file));
+			} else {
+				files.add(absolute);
+			}
+			continue;
+		}
+
+		const normalized = pattern.split(path.sep).join('/');
+		const base = path.resolve(cwd, getStaticBase(normalized));
+		if (!fs.existsSync(base)) {
+			continue;
+		}
+
+		const matcher = path.isAbsolute(pattern) ? normalized : path.resolve(cwd, normalized).split(path.sep).join('/');
+		walk(base, file => minimatch(file.split(path.sep).join('/'), matcher)).forEach(file => files.add(file));
+	}
+
+	return [...files].sort();
+}
+
+function hasMagic(pattern: string): boolean {
+	return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * The leading directories of a glob that contain no wildcards, e.g. `src/mappings` for `src/mappings/**\/*.jsonata`
+ */
+function getStaticBase(pattern: string): string {
+	const segments = pattern.split('/');
+	const index = segments.findIndex(hasMagic);
+	const base = segments.slice(0, index === -1 ? segments.length : index).join('/');
+	return base || (pattern.startsWith('/') ? '/' : '.');
+}
+
+function walk(directory: string, include: (file: string) => boolean): string[] {
+	const files: string[] = [];
+	const entries = fs.readdirSync(directory, { withFileTypes: true });
+
+	for (const entry of entries) {
+		const fullPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			if (!SKIPPED_DIRECTORIES.includes(entry.name)) {
+				files.push(...walk(fullPath, include));
+			}
+		} else if (entry.isFile() && include(fullPath)) {
+			files.push(fullPath);
+		}
+	}
+
+	return files;
+}
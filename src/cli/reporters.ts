@@ -0,0 +1,194 @@
+import * as path from 'path';
+import { ProblemSeverity, ValidationProblem } from '../validation/ExpressionValidator';
+import { BUILTIN_LINT_RULES } from '../lint/rules';
+
+/**
+ * The problems found in one file
+ */
+export interface FileResult {
+	/** Absolute path of the file */
+	filePath: string;
+	problems: ValidationProblem[];
+}
+
+/**
+ * A file of the `json` report, with 1-based lines and columns
+ */
+export interface JsonFileReport {
+	/** Relative to the working directory */
+	filePath: string;
+	errorCount: number;
+	warningCount: number;
+	problems: JsonProblemReport[];
+}
+
+export interface JsonProblemReport {
+	ruleId: string;
+	code?: string;
+	severity: ProblemSeverity;
+	message: string;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+}
+
+/**
+ * A result of the `sarif` report, as far as it is written
+ */
+export interface SarifResult {
+	ruleId: string;
+	ruleIndex: number;
+	level: string;
+	message: { text: string };
+	locations: Array<{
+		physicalLocation: {
+			artifactLocation: { uri: string; uriBaseId: string };
+			region: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+		};
+	}>;
+}
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif'];
+
+const SARIF_LEVELS: Record<ProblemSeverity, string> = {
+	error: 'error',
+	warning: 'warning',
+	info: 'note',
+	hint: 'note'
+};
+
+/** Rules reported by the validator itself rather than by a lint rule */
+const VALIDATOR_RULES: Record<string, string> = {
+	'syntax-error': 'The expression does not compile',
+	'unresolved-path': 'A field path cannot exist in the associated schema or sample input',
+	'unknown-function': 'A call to a function that does not exist',
+	'wrong-arity': 'A call with the wrong number of arguments'
+};
+
+export function formatResults(results: FileResult[], format: ReportFormat, cwd: string): string {
+	switch (format) {
+		case 'json':
+			return formatJson(results, cwd);
+		case 'sarif':
+			return formatSarif(results, cwd);
+		default:
+			return formatText(results, cwd);
+	}
+}
+
+export function countProblems(results: FileResult[], severity: ProblemSeverity): number {
+	return results.reduce((count, result) =>
+		count + result.problems.filter(problem => problem.severity === severity).length, 0);
+}
+
+/**
+ * The rule a problem is reported under. jsonata's own error codes (S0201...) are syntax errors.
+ */
+function getRuleId(problem: ValidationProblem): string {
+	if (problem.source === 'jsonata-lint' || (problem.code && problem.code in VALIDATOR_RULES)) {
+		return problem.code!;
+	}
+	return 'syntax-error';
+}
+
+/**
+ * `file:line:column  severity  message  rule`, grouped by file, with a summary line
+ */
+function formatText(results: FileResult[], cwd: string): string {
+	const lines: string[] = [];
+
+	for (const result of results.filter(candidate => candidate.problems.length > 0)) {
+		const relativePath = path.relative(cwd, result.filePath);
+		for (const problem of result.problems) {
+			lines.push(`${relativePath}:${problem.line + 1}:${problem.startChar + 1}  ${problem.severity}  ${problem.message}  ${getRuleId(problem)}`);
+		}
+	}
+
+	const errors = countProblems(results, 'error');
+	const warnings = countProblems(results, 'warning');
+	const total = results.reduce((count, result) => count + result.problems.length, 0);
+	const fileCount = `${results.length} file${results.length === 1 ? '' : 's'}`;
+
+	if (total === 0) {
+		lines.push(`✓ ${fileCount} checked, no problems`);
+	} else {
+		if (lines.length > 0) {
+			lines.push('');
+		}
+		lines.push(`✗ ${total} problem${total === 1 ? '' : 's'} (${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}) in ${fileCount}`);
+	}
+
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * One entry per file, with 1-based lines and columns
+ */
+function formatJson(results: FileResult[], cwd: string): string {
+	const files = results.map((result): JsonFileReport => ({
+		filePath: path.relative(cwd, result.filePath),
+		errorCount: result.problems.filter(problem => problem.severity === 'error').length,
+		warningCount: result.problems.filter(problem => problem.severity === 'warning').length,
+		problems: result.problems.map(problem => ({
+			ruleId: getRuleId(problem),
+			code: problem.code,
+			severity: problem.severity,
+			message: problem.message,
+			line: problem.line + 1,
+			column: problem.startChar + 1,
+			endLine: problem.line + 1,
+			endColumn: problem.endChar + 1
+		}))
+	}));
+
+	return JSON.stringify(files, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0, which GitHub code scanning and other review tools turn into annotations
+ */
+function formatSarif(results: FileResult[], cwd: string): string {
+	const rules = [
+		...Object.entries(VALIDATOR_RULES).map(([id, description]) => ({ id, description })),
+		...BUILTIN_LINT_RULES.map(rule => ({ id: rule.id, description: rule.description }))
+	];
+
+	const log = {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'jsonata-validate',
+					informationUri: 'https://github.com/Fitmavincent/jsonata-validator',
+					rules: rules.map(rule => ({ id: rule.id, shortDescription: { text: rule.description } }))
+				}
+			},
+			results: results.flatMap(result => result.problems.map((problem): SarifResult => ({
+				ruleId: getRuleId(problem),
+				ruleIndex: rules.findIndex(rule => rule.id === getRuleId(problem)),
+				level: SARIF_LEVELS[problem.severity],
+				message: { text: problem.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: {
+							uri: path.relative(cwd, result.filePath).split(path.sep).join('/'),
+							uriBaseId: '%SRCROOT%'
+						},
+						region: {
+							startLine: problem.line + 1,
+							startColumn: problem.startChar + 1,
+							endLine: problem.line + 1,
+							endColumn: problem.endChar + 1
+						}
+					}
+				}]
+			})))
+		}]
+	};
+
+	return JSON.stringify(log, null, 2) + '\n';
+}
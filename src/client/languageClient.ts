@@ -0,0 +1,39 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LanguageClient, LanguageClientOptions, Middleware, ServerOptions, TransportKind } from 'vscode-languageclient/node';
+
+/**
+ * The documents the language server looks after. Untitled documents, such as the playground
+ * template, stay with the extension, which knows the playground input. A template opened from
+ * disk is served, but its completion and hover can be routed back with `middleware`.
+ */
+export const SERVED_DOCUMENTS = { scheme: 'file', language: 'jsonata' };
+
+export function isServedByLanguageServer(document: vscode.TextDocument): boolean {
+	return vscode.languages.match(SERVED_DOCUMENTS, document) > 0;
+}
+
+/**
+ * Start the bundled language server for JSONata files on disk
+ */
+export function startLanguageClient(context: vscode.ExtensionContext, middleware?: Middleware): LanguageClient {
+	const module = context.asAbsolutePath(path.join('dist', 'server.js'));
+	const serverOptions: ServerOptions = {
+		run: { module, transport: TransportKind.ipc },
+		debug: { module, transport: TransportKind.ipc, options: { execArgv: ['--nolazy', '--inspect=6009'] } }
+	};
+
+	const clientOptions: LanguageClientOptions = {
+		documentSelector: [SERVED_DOCUMENTS],
+		middleware,
+		synchronize: {
+			// Schemas, sample inputs and lint configuration change what the server reports
+			fileEvents: vscode.workspace.createFileSystemWatcher('**/{*.json,.jsonatalintrc}')
+		}
+	};
+
+	// The id makes `jsonataValidator.trace.server` the trace setting
+	const client = new LanguageClient('jsonataValidator', 'JSONata Language Server', serverOptions, clientOptions);
+	void client.start();
+	return client;
+}
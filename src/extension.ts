@@ -3,13 +3,32 @@
 import * as vscode from 'vscode';
 import { PlaygroundProvider } from './playground/PlaygroundProvider';
 import { ValidationService } from './validation/ValidationService';
+import { ValidationScheduler } from './validation/ValidationScheduler';
+import { WorkspaceValidator } from './validation/WorkspaceValidator';
+import { JsonataTestController } from './testing/JsonataTestController';
+import { SnapshotTester } from './testing/SnapshotTester';
 import { isJsonataFile } from './utils/jsonataUtils';
 import { ExportService } from './share/ExportService';
 import { ImportService } from './share/ImportService';
+import { JsonataCompletionProvider } from './language/JsonataCompletionProvider';
+import { JsonataHoverProvider } from './language/JsonataHoverProvider';
+import { JsonataSignatureHelpProvider } from './language/JsonataSignatureHelpProvider';
+import { JsonataFormattingProvider } from './language/JsonataFormattingProvider';
+import { JsonataNavigationProvider } from './language/JsonataNavigationProvider';
+import { JsonataRenameProvider } from './language/JsonataRenameProvider';
+import { JsonataDocumentSymbolProvider } from './language/JsonataDocumentSymbolProvider';
+import { JsonataSemanticTokensProvider } from './language/JsonataSemanticTokensProvider';
+import { JsonataCodeActionProvider } from './language/JsonataCodeActionProvider';
+import { FileAssociations } from './validation/FileAssociations';
+import { getEmbeddingLanguage } from './validation/embeddedExpressions';
+import { LINT_CONFIG_FILE_NAME } from './lint/LintConfigLoader';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { isServedByLanguageServer, startLanguageClient } from './client/languageClient';
 
 // Diagnostic collection for JSONata validation errors
 let diagnosticCollection: vscode.DiagnosticCollection;
 let validationService: ValidationService;
+let languageClient: LanguageClient | undefined;
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -23,8 +42,30 @@ export function activate(context: vscode.ExtensionContext) {
 	diagnosticCollection = vscode.languages.createDiagnosticCollection('jsonata');
 	context.subscriptions.push(diagnosticCollection);
 
-	// Initialize validation service
-	validationService = new ValidationService(diagnosticCollection);
+	// Initialize validation service, sharing schema/sample associations with the language features
+	const fileAssociations = new FileAssociations();
+	validationService = new ValidationService(diagnosticCollection, fileAssociations);
+	const validationScheduler = new ValidationScheduler(document => validationService.validateDocument(document));
+	// Files that are not open are validated from disk, into their own collection
+	const workspaceValidator = new WorkspaceValidator(validationService);
+
+	// JSONata files on disk are served by the language server; other documents, like the
+	// playground template, are handled in process where the playground input is known
+	if (vscode.workspace.getConfiguration('jsonataValidator').get<boolean>('languageServer.enable', true)) {
+		// A template opened from disk keeps the completions and hovers that use the playground input
+		languageClient = startLanguageClient(context, {
+			provideCompletionItem: (document, position, completionContext, token, next) => isPlaygroundTemplate(document)
+				? jsonataCompletionProvider.provideCompletionItems(document, position)
+				: next(document, position, completionContext, token),
+			provideHover: (document, position, token, next) => isPlaygroundTemplate(document)
+				? jsonataHoverProvider.provideHover(document, position)
+				: next(document, position, token)
+		});
+	}
+	const validatesInProcess = (document: vscode.TextDocument) =>
+		(isJsonataFile(document) || getEmbeddingLanguage(document.languageId) !== undefined) &&
+		!(languageClient && isServedByLanguageServer(document));
+	const inProcessSelector: vscode.DocumentSelector = languageClient ? { language: 'jsonata', scheme: 'untitled' } : 'jsonata';
 
 	// Initialize playground provider with validation service
 	const playgroundProvider = PlaygroundProvider.getInstance(context, validationService);
@@ -32,8 +73,11 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register commands
 	const validateDocumentCommand = vscode.commands.registerCommand('jsonata-validator.validateDocument', () => {
 		const editor = vscode.window.activeTextEditor;
-		if (editor) {
-			validationService.validateDocument(editor.document);
+		if (editor && languageClient && isServedByLanguageServer(editor.document)) {
+			// The language server keeps the diagnostics of the document up to date
+			vscode.commands.executeCommand('workbench.actions.view.problems');
+		} else if (editor) {
+			validationScheduler.validateNow(editor.document);
 		}
 	});
 
@@ -45,6 +89,9 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	const validateWorkspaceCommand = vscode.commands.registerCommand('jsonata-validator.validateWorkspace', () =>
+		workspaceValidator.validateWorkspaceWithProgress());
+
 	const openPlaygroundCommand = vscode.commands.registerCommand('jsonata-validator.openPlayground', () => {
 		playgroundProvider.openPlayground();
 	});
@@ -96,13 +143,94 @@ export function activate(context: vscode.ExtensionContext) {
 		await ImportService.quickImportFromClipboard(playgroundProvider);
 	});
 
+	// Cases of `*.jsonata-test.json` files in the Test Explorer
+	const testController = new JsonataTestController();
+
+	// Outputs of templates against their sample input, kept in `__snapshots__` folders
+	const snapshotTester = new SnapshotTester(fileAssociations);
+	const snapshotContentProvider = vscode.workspace.registerTextDocumentContentProvider(SnapshotTester.scheme, snapshotTester);
+	const snapshotCodeActionProvider = vscode.languages.registerCodeActionsProvider('jsonata', snapshotTester, {
+		providedCodeActionKinds: SnapshotTester.providedCodeActionKinds
+	});
+	// The snapshot commands act on the template of the active editor when no template is passed
+	const getSnapshotTemplate = (uri?: vscode.Uri) => {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		return target ? snapshotTester.getTemplateUri(target) : undefined;
+	};
+
+	const checkSnapshotsCommand = vscode.commands.registerCommand('jsonata-validator.checkSnapshots', () =>
+		snapshotTester.checkWorkspaceWithProgress());
+
+	const acceptSnapshotCommand = vscode.commands.registerCommand('jsonata-validator.acceptSnapshot', async (uri?: vscode.Uri) => {
+		const templateUri = getSnapshotTemplate(uri);
+		if (!templateUri || !await snapshotTester.acceptSnapshot(templateUri)) {
+			vscode.window.showInformationMessage('No new JSONata snapshot to accept');
+		}
+	});
+
+	const showSnapshotDiffCommand = vscode.commands.registerCommand('jsonata-validator.showSnapshotDiff', async (uri?: vscode.Uri) => {
+		const templateUri = getSnapshotTemplate(uri);
+		if (templateUri) {
+			await snapshotTester.showDiff(templateUri);
+		}
+	});
+
+	// Register language features
+	// Sample input comes from the playground for its template, otherwise from an associated sample file
+	const getSampleInput = (document: vscode.TextDocument) => {
+		const playgroundInput = playgroundProvider.getCurrentPlayground()?.getSampleInputForTemplate(document);
+		return playgroundInput !== undefined ? playgroundInput : fileAssociations.getSampleData(document)?.content;
+	};
+
+	const isPlaygroundTemplate = (document: vscode.TextDocument) =>
+		playgroundProvider.getCurrentPlayground()?.isTemplate(document) === true;
+
+	const jsonataCompletionProvider = new JsonataCompletionProvider(getSampleInput);
+	const completionProvider = vscode.languages.registerCompletionItemProvider(
+		inProcessSelector,
+		jsonataCompletionProvider,
+		'$', '.', '[', '{'
+	);
+
+	// Hovers show variable values for the playground template only, not for sample files
+	const jsonataHoverProvider = new JsonataHoverProvider(
+		getSampleInput,
+		document => playgroundProvider.getCurrentPlayground()?.getSampleInputForTemplate(document)
+	);
+	const hoverProvider = vscode.languages.registerHoverProvider(inProcessSelector, jsonataHoverProvider);
+
+	const signatureHelpProvider = vscode.languages.registerSignatureHelpProvider(
+		'jsonata',
+		new JsonataSignatureHelpProvider(),
+		{ triggerCharacters: ['(', ','], retriggerCharacters: [','] }
+	);
+
+	const formattingProvider = new JsonataFormattingProvider();
+	const documentFormattingProvider = vscode.languages.registerDocumentFormattingEditProvider(inProcessSelector, formattingProvider);
+	const rangeFormattingProvider = vscode.languages.registerDocumentRangeFormattingEditProvider(inProcessSelector, formattingProvider);
+
+	const navigationProvider = new JsonataNavigationProvider();
+	const definitionProvider = vscode.languages.registerDefinitionProvider('jsonata', navigationProvider);
+	const referenceProvider = vscode.languages.registerReferenceProvider('jsonata', navigationProvider);
+	const documentHighlightProvider = vscode.languages.registerDocumentHighlightProvider('jsonata', navigationProvider);
+	const renameProvider = vscode.languages.registerRenameProvider('jsonata', new JsonataRenameProvider());
+	const documentSymbolProvider = vscode.languages.registerDocumentSymbolProvider('jsonata', new JsonataDocumentSymbolProvider());
+	const semanticTokensProvider = vscode.languages.registerDocumentSemanticTokensProvider(
+		'jsonata',
+		new JsonataSemanticTokensProvider(),
+		JsonataSemanticTokensProvider.legend
+	);
+	const codeActionProvider = vscode.languages.registerCodeActionsProvider('jsonata', new JsonataCodeActionProvider(), {
+		providedCodeActionKinds: JsonataCodeActionProvider.providedCodeActionKinds
+	});
+
 	// Register event listeners
 	const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument(event => {
 		const config = vscode.workspace.getConfiguration('jsonataValidator');
 		if (config.get<boolean>('validateOnType', true)) {
-			if (isJsonataFile(event.document)) {
-				// Debounce validation to avoid too frequent calls
-				setTimeout(() => validationService.validateDocument(event.document), 500);
+			if (validatesInProcess(event.document)) {
+				// Debounced, so a burst of keystrokes validates once
+				validationScheduler.schedule(event.document);
 			}
 		}
 	});
@@ -110,26 +238,54 @@ export function activate(context: vscode.ExtensionContext) {
 	const onDidSaveTextDocument = vscode.workspace.onDidSaveTextDocument(document => {
 		const config = vscode.workspace.getConfiguration('jsonataValidator');
 		if (config.get<boolean>('validateOnSave', true)) {
-			if (isJsonataFile(document)) {
-				validationService.validateDocument(document);
+			if (validatesInProcess(document)) {
+				validationScheduler.validateNow(document);
 			}
 		}
+		snapshotTester.onDidSave(document);
 	});
 
 	const onDidOpenTextDocument = vscode.workspace.onDidOpenTextDocument(document => {
-		if (isJsonataFile(document)) {
-			validationService.validateDocument(document);
+		workspaceValidator.onDidOpen(document);
+		if (validatesInProcess(document)) {
+			validationScheduler.validateNow(document);
 		}
 	});
 
 	const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument(document => {
+		validationScheduler.cancel(document.uri);
 		diagnosticCollection.delete(document.uri);
+		workspaceValidator.onDidClose(document);
+	});
+
+	// Lint settings live outside the document, so re-check open documents and workspace files when they change
+	const revalidateDocuments = () => {
+		vscode.workspace.textDocuments
+			.filter(validatesInProcess)
+			.forEach(document => validationScheduler.validateNow(document));
+		void workspaceValidator.revalidate();
+	};
+	const lintConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${LINT_CONFIG_FILE_NAME}`);
+	lintConfigWatcher.onDidCreate(revalidateDocuments);
+	lintConfigWatcher.onDidChange(revalidateDocuments);
+	lintConfigWatcher.onDidDelete(revalidateDocuments);
+	const isBackgroundValidationEnabled = () =>
+		vscode.workspace.getConfiguration('jsonataValidator').get<boolean>('workspaceValidation.enable', false);
+	const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('jsonataValidator.lint') || event.affectsConfiguration('jsonataValidator.embedded')) {
+			revalidateDocuments();
+		}
+		if (event.affectsConfiguration('jsonataValidator.workspaceValidation') || event.affectsConfiguration('jsonataValidator.embedded')) {
+			// The files to watch follow the include patterns and embedded settings
+			workspaceValidator.setBackgroundMode(isBackgroundValidationEnabled());
+		}
 	});
 
 	// Add all subscriptions
 	context.subscriptions.push(
 		validateDocumentCommand,
 		validateSelectionCommand,
+		validateWorkspaceCommand,
 		openPlaygroundCommand,
 		openPlaygroundWithSelectionCommand,
 		populatePlaygroundFromActiveEditor,
@@ -137,18 +293,45 @@ export function activate(context: vscode.ExtensionContext) {
 		importPlaygroundSessionCommand,
 		exportPlaygroundToClipboardCommand,
 		importPlaygroundFromClipboardCommand,
+		testController,
+		snapshotTester,
+		snapshotContentProvider,
+		snapshotCodeActionProvider,
+		checkSnapshotsCommand,
+		acceptSnapshotCommand,
+		showSnapshotDiffCommand,
+		completionProvider,
+		jsonataHoverProvider,
+		hoverProvider,
+		signatureHelpProvider,
+		documentFormattingProvider,
+		rangeFormattingProvider,
+		definitionProvider,
+		referenceProvider,
+		documentHighlightProvider,
+		renameProvider,
+		documentSymbolProvider,
+		semanticTokensProvider,
+		codeActionProvider,
 		onDidChangeTextDocument,
 		onDidSaveTextDocument,
 		onDidOpenTextDocument,
-		onDidCloseTextDocument
+		onDidCloseTextDocument,
+		validationScheduler,
+		workspaceValidator,
+		lintConfigWatcher,
+		onDidChangeConfiguration
 	);
 
 	// Validate already open documents
 	vscode.workspace.textDocuments.forEach(document => {
-		if (isJsonataFile(document)) {
-			validationService.validateDocument(document);
+		if (validatesInProcess(document)) {
+			validationScheduler.validateNow(document);
 		}
 	});
+
+	// And the rest of the workspace, if asked to
+	workspaceValidator.setBackgroundMode(isBackgroundValidationEnabled());
 }
 
 // This method is called when your extension is deactivated
@@ -156,4 +339,5 @@ export function deactivate() {
 	if (diagnosticCollection) {
 		diagnosticCollection.dispose();
 	}
+	return languageClient?.stop();
 }
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { BUILTIN_FUNCTIONS, getBuiltinFunction } from './builtinFunctions';
+import { findDocumentBindings, maskCommentsAndStrings } from './documentBindings';
+import { parseExpressionAt } from './documentExpressions';
+import { BinaryNode, ExpressionNode, getChildren } from './parser';
+import { findSimilarNames } from '../utils/stringUtils';
+
+/**
+ * Quick fixes for common mistakes: trailing commas, missing closing brackets,
+ * `=` where a `:=` binding was meant, and misspelt function names
+ */
+export class JsonataCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            const fix = this.createTrailingCommaFix(document, diagnostic) ?? this.createMissingBracketFix(document, diagnostic);
+            if (fix) {
+                actions.push(fix);
+            }
+        }
+
+        actions.push(...this.createFunctionNameFixes(document, range, context.diagnostics));
+
+        const bindingFix = this.createBindingFix(document, range);
+        if (bindingFix) {
+            actions.push(bindingFix);
+        }
+
+        return actions;
+    }
+
+    /**
+     * `{"a": 1,}` fails with "The symbol } cannot be used as a unary operator" (S0211)
+     */
+    private createTrailingCommaFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+        if (diagnostic.code !== 'S0211' || !/symbol "?[}\]]"? cannot be used/.test(diagnostic.message)) {
+            return undefined;
+        }
+
+        // The validator points at the comma itself when it finds it on the previous line
+        let commaOffset: number | undefined;
+        if (document.getText(diagnostic.range) === ',') {
+            commaOffset = document.offsetAt(diagnostic.range.start);
+        } else {
+            const masked = maskCommentsAndStrings(document.getText());
+            const before = masked.substring(0, document.offsetAt(diagnostic.range.start)).trimEnd();
+            if (before.endsWith(',')) {
+                commaOffset = before.length - 1;
+            }
+        }
+
+        if (commaOffset === undefined) {
+            return undefined;
+        }
+
+        const action = new vscode.CodeAction('Remove trailing comma', vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.delete(document.uri, new vscode.Range(document.positionAt(commaOffset), document.positionAt(commaOffset + 1)));
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    /**
+     * `Expected ")" before end of expression` (S0203) and `Expected ")", got "]"` (S0202)
+     */
+    private createMissingBracketFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+        const match = /Expected "([)\]}])"(?:,| before end)/.exec(diagnostic.message);
+        if (!match || (diagnostic.code !== 'S0203' && diagnostic.code !== 'S0202')) {
+            return undefined;
+        }
+
+        const bracket = match[1];
+        // At the end of the expression the diagnostic covers its last character; otherwise the unexpected token
+        const position = diagnostic.code === 'S0203' ? diagnostic.range.end : diagnostic.range.start;
+
+        const action = new vscode.CodeAction(`Insert missing '${bracket}'`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.insert(document.uri, position, bracket);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    /**
+     * Offer the closest built-in or document function for a call to a function that does not exist
+     */
+    private createFunctionNameFixes(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        diagnostics: readonly vscode.Diagnostic[]
+    ): vscode.CodeAction[] {
+        const nameRange = document.getWordRangeAtPosition(range.start, /\$[A-Za-z_][A-Za-z0-9_]*(?=\s*\()/);
+        if (!nameRange) {
+            return [];
+        }
+
+        const name = document.getText(nameRange).substring(1);
+        const bound = findDocumentBindings(document.getText()).map(binding => binding.name);
+        if (getBuiltinFunction(name) || bound.includes(name)) {
+            return [];
+        }
+
+        const candidates = [...new Set([...bound, ...BUILTIN_FUNCTIONS.map(fn => fn.name)])];
+        return findSimilarNames(name, candidates).map((suggestion, index) => {
+            const action = new vscode.CodeAction(`Change to '$${suggestion}'`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, nameRange, `$${suggestion}`);
+            action.diagnostics = diagnostics.filter(diagnostic => diagnostic.range.intersection(nameRange));
+            action.isPreferred = index === 0;
+            return action;
+        });
+    }
+
+    /**
+     * In `( $x = 1; ... )` the comparison's result is thrown away: a `:=` binding was almost certainly meant
+     */
+    private createBindingFix(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction | undefined {
+        const offset = document.offsetAt(range.start);
+        const parsed = parseExpressionAt(document, offset);
+        if (!parsed) {
+            return undefined;
+        }
+
+        const relative = offset - parsed.expression.offset;
+        let comparison: BinaryNode | undefined;
+        const visit = (node: ExpressionNode) => {
+            if (node.type === 'block') {
+                node.expressions.slice(0, -1).forEach(statement => {
+                    if (statement.type === 'binary' && statement.operator === '=' && statement.lhs.type === 'variable'
+                        && relative >= statement.start && relative <= statement.end) {
+                        comparison = statement;
+                    }
+                });
+            }
+            getChildren(node).forEach(visit);
+        };
+        visit(parsed.parsed.ast);
+
+        if (!comparison) {
+            return undefined;
+        }
+
+        const { text } = parsed.expression;
+        const between = text.substring(comparison.lhs.end, comparison.rhs.start);
+        const operatorOffset = parsed.expression.offset + comparison.lhs.end + maskCommentsAndStrings(between).indexOf('=');
+        const variable = text.substring(comparison.lhs.start, comparison.lhs.end);
+        const action = new vscode.CodeAction(`Change '=' to ':=' to bind ${variable}`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, new vscode.Range(document.positionAt(operatorOffset), document.positionAt(operatorOffset + 1)), ':=');
+        return action;
+    }
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { CompletionCandidate, getCompletions } from './completion';
+
+/**
+ * Gets the sample input a JSONata document is written against, if one is known
+ */
+export type SampleInputSource = (document: vscode.TextDocument) => any | undefined;
+
+const KINDS: Record<CompletionCandidate['kind'], vscode.CompletionItemKind> = {
+    function: vscode.CompletionItemKind.Function,
+    variable: vscode.CompletionItemKind.Variable,
+    field: vscode.CompletionItemKind.Field
+};
+
+/**
+ * Provides completion for built-in JSONata functions, the document's own `$name :=` bindings
+ * and, when sample input is known for the document, the field names valid at the cursor
+ */
+export class JsonataCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private getSampleInput?: SampleInputSource) {}
+
+    public provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): vscode.CompletionItem[] | undefined {
+        const candidates = getCompletions(document.getText(), document.offsetAt(position), this.getSampleInput?.(document));
+        return candidates?.map(candidate => this.createItem(document, candidate));
+    }
+
+    private createItem(document: vscode.TextDocument, candidate: CompletionCandidate): vscode.CompletionItem {
+        const label = candidate.labelDetail !== undefined || candidate.labelDescription !== undefined
+            ? { label: candidate.label, detail: candidate.labelDetail, description: candidate.labelDescription }
+            : candidate.label;
+        const item = new vscode.CompletionItem(label, KINDS[candidate.kind]);
+        item.range = new vscode.Range(document.positionAt(candidate.start), document.positionAt(candidate.end));
+        item.detail = candidate.detail;
+        item.sortText = candidate.sortText;
+        if (candidate.documentation) {
+            item.documentation = new vscode.MarkdownString(candidate.documentation);
+        }
+        if (candidate.insertText !== undefined) {
+            item.insertText = candidate.isSnippet ? new vscode.SnippetString(candidate.insertText) : candidate.insertText;
+        }
+        return item;
+    }
+}
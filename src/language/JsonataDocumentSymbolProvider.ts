@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { DocumentExpression, getDocumentExpressions } from './documentExpressions';
+import { expressionCache } from './expressionCache';
+import { ExpressionNode, getChildren, LambdaNode } from './parser';
+
+/**
+ * Shows the structure of a template in the Outline view and breadcrumbs: each top-level
+ * expression, with its object constructor keys, `:=` bindings and lambdas nested inside
+ */
+export class JsonataDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    private static readonly MAX_NAME_LENGTH = 60;
+
+    public provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        return getDocumentExpressions(document).map((expression, index) => {
+            const firstLine = expression.text.split('\n')[0].trim();
+            const symbol = new vscode.DocumentSymbol(
+                `Expression ${index + 1}`,
+                this.truncate(firstLine),
+                vscode.SymbolKind.Module,
+                expression.range,
+                expression.range
+            );
+
+            // Syntax errors are reported by the validator; the expression is still listed
+            const parsed = expressionCache.parse(expression.text);
+            if (parsed) {
+                symbol.children = this.collectSymbols(document, expression, parsed.ast);
+            }
+
+            return symbol;
+        });
+    }
+
+    private collectSymbols(document: vscode.TextDocument, expression: DocumentExpression, node: ExpressionNode): vscode.DocumentSymbol[] {
+        const range = (start: number, end: number) =>
+            new vscode.Range(document.positionAt(expression.offset + start), document.positionAt(expression.offset + end));
+        const childrenOf = (nodes: ExpressionNode[]) => nodes.flatMap(child => this.collectSymbols(document, expression, child));
+
+        if (node.type === 'object') {
+            const symbols = node.lhs ? childrenOf([node.lhs]) : [];
+            for (const pair of node.pairs) {
+                const key = pair.key.type === 'string' || pair.key.type === 'name'
+                    ? pair.key.value
+                    : expression.text.substring(pair.key.start, pair.key.end);
+                const symbol = new vscode.DocumentSymbol(
+                    this.truncate(key) || '""',
+                    '',
+                    vscode.SymbolKind.Property,
+                    range(pair.key.start, pair.value.end),
+                    range(pair.key.start, pair.key.end)
+                );
+                symbol.children = childrenOf([pair.key, pair.value]);
+                symbols.push(symbol);
+            }
+            return symbols;
+        }
+
+        if (node.type === 'binary' && node.operator === ':=' && node.lhs.type === 'variable') {
+            const lambda = node.rhs.type === 'lambda' ? node.rhs : undefined;
+            const symbol = new vscode.DocumentSymbol(
+                node.lhs.raw,
+                lambda ? this.describeLambda(lambda) : '',
+                lambda ? vscode.SymbolKind.Function : vscode.SymbolKind.Variable,
+                range(node.start, node.end),
+                range(node.lhs.start, node.lhs.end)
+            );
+            // A bound lambda is the function itself, so list what is inside its body
+            symbol.children = childrenOf([lambda ? lambda.body : node.rhs]);
+            return [symbol];
+        }
+
+        if (node.type === 'lambda') {
+            const symbol = new vscode.DocumentSymbol(
+                this.describeLambda(node),
+                '',
+                vscode.SymbolKind.Function,
+                range(node.start, node.end),
+                range(node.start, node.start + node.keyword.length)
+            );
+            symbol.children = childrenOf([node.body]);
+            return [symbol];
+        }
+
+        return childrenOf(getChildren(node));
+    }
+
+    private describeLambda(lambda: LambdaNode): string {
+        return `${lambda.keyword}(${lambda.parameters.map(parameter => parameter.raw).join(', ')})${lambda.signature ?? ''}`;
+    }
+
+    private truncate(text: string): string {
+        const singleLine = text.replace(/\s+/g, ' ');
+        return singleLine.length > JsonataDocumentSymbolProvider.MAX_NAME_LENGTH
+            ? singleLine.substring(0, JsonataDocumentSymbolProvider.MAX_NAME_LENGTH - 1) + '…'
+            : singleLine;
+    }
+}
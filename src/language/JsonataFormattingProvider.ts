@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { formatJsonata } from './formatting';
+import { PrintOptions } from './printer';
+
+/**
+ * Formats `.jsonata` documents by re-printing each expression from its syntax tree.
+ * Expressions that do not parse are left untouched, and so is any expression whose
+ * re-printed form would not compile to the same jsonata AST.
+ */
+export class JsonataFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.formatExpressions(document, options);
+    }
+
+    /**
+     * Formats every expression the range touches, as a whole
+     */
+    public provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions
+    ): vscode.TextEdit[] {
+        return this.formatExpressions(document, options, range);
+    }
+
+    private formatExpressions(document: vscode.TextDocument, options: vscode.FormattingOptions, range?: vscode.Range): vscode.TextEdit[] {
+        const offsets = range ? { start: document.offsetAt(range.start), end: document.offsetAt(range.end) } : undefined;
+        return formatJsonata(document.getText(), this.getPrintOptions(document, options), offsets).map(replacement =>
+            vscode.TextEdit.replace(
+                new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+                replacement.newText
+            ));
+    }
+
+    private getPrintOptions(document: vscode.TextDocument, options: vscode.FormattingOptions): PrintOptions {
+        const config = vscode.workspace.getConfiguration('jsonataValidator', document.uri);
+        return {
+            indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t',
+            lineWidth: config.get<number>('format.lineWidth', 80),
+            spaceAroundOperators: config.get<boolean>('format.spaceAroundOperators', true),
+            spaceInsideBlocks: config.get<boolean>('format.spaceInsideBlocks', true)
+        };
+    }
+}
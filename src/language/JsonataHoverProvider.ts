@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { getHover, ProbeEvaluator } from './hover';
+import { SampleInputSource } from './JsonataCompletionProvider';
+import { EvaluationRunner } from '../playground/EvaluationRunner';
+import { getEvaluationBudget, getFunctionsModulePath } from '../playground/evaluationSettings';
+
+/**
+ * Shows documentation for built-in functions and operators, for `$variables` where they are
+ * bound and, for the playground template, their value for the current input, and for field
+ * paths with their values in the sample input. Variable values are evaluated in an
+ * `EvaluationRunner` worker with the playground's budget, so a template that never finishes
+ * cannot block the extension host.
+ */
+export class JsonataHoverProvider implements vscode.HoverProvider, vscode.Disposable {
+    private runner: EvaluationRunner;
+
+    /**
+     * @param getSampleInput Gets the sample input of a document, from the playground or an associated file
+     * @param getPlaygroundInput Gets the playground input when the document is the playground template
+     */
+    constructor(private getSampleInput?: SampleInputSource, private getPlaygroundInput?: SampleInputSource, workerPath?: string) {
+        this.runner = new EvaluationRunner(workerPath);
+    }
+
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const playgroundInput = this.getPlaygroundInput?.(document);
+        const hover = await getHover(document.getText(), document.offsetAt(position), {
+            sampleInput: this.getSampleInput?.(document),
+            evaluate: playgroundInput !== undefined ? this.createEvaluator(playgroundInput) : undefined
+        });
+        if (!hover) {
+            return undefined;
+        }
+
+        return new vscode.Hover(
+            new vscode.MarkdownString(hover.markdown),
+            new vscode.Range(document.positionAt(hover.start), document.positionAt(hover.end))
+        );
+    }
+
+    public dispose(): void {
+        this.runner.dispose();
+    }
+
+    private createEvaluator(input: any): ProbeEvaluator {
+        return async (expression, probe) => {
+            // A newer hover cancels this evaluation, like any other evaluation on the runner
+            const outcome = await this.runner.evaluate(expression, JSON.stringify(input), getEvaluationBudget(), {
+                functionsModule: getFunctionsModulePath(),
+                probe
+            });
+
+            const values = (outcome.status === 'done' || outcome.status === 'error') && outcome.probed !== undefined
+                ? JSON.parse(outcome.probed) as any[]
+                : undefined;
+            // Values recorded before a runtime error are still worth showing
+            return outcome.status === 'done' || (values && values.length > 0) ? values ?? [] : undefined;
+        };
+    }
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { findBindingForReference, findDocumentBindings } from './documentBindings';
+import { DocumentExpression, parseExpressionAt } from './documentExpressions';
+import { analyzeScopes, findReferences, findVariableAt, ScopeAnalysis, VariableBinding } from './scopeAnalysis';
+
+/**
+ * The variable under the cursor, resolved within its expression
+ */
+interface VariableAtPosition {
+    expression: DocumentExpression;
+    analysis: ScopeAnalysis;
+    name: string;
+    binding?: VariableBinding;
+}
+
+/**
+ * Go to definition, find references and occurrence highlighting for `$variables`, following
+ * JSONata's block and lambda scoping so that `$x` leads to the binding actually in scope
+ */
+export class JsonataNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.DocumentHighlightProvider {
+    public provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location | undefined {
+        const parsed = parseExpressionAt(document, document.offsetAt(position));
+        if (!parsed) {
+            return this.provideTextualDefinition(document, position);
+        }
+
+        // Nothing to go to for names bound outside the expression, such as built-in functions
+        const variable = this.findVariable(document, position, parsed);
+        return variable?.binding
+            ? new vscode.Location(document.uri, this.toRange(document, variable.expression, variable.binding))
+            : undefined;
+    }
+
+    public provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): vscode.Location[] | undefined {
+        const variable = this.findVariable(document, position);
+        if (!variable?.binding) {
+            return undefined;
+        }
+
+        const ranges = findReferences(variable.analysis, variable.binding).map(reference => this.toRange(document, variable.expression, reference));
+        if (context.includeDeclaration) {
+            ranges.unshift(this.toRange(document, variable.expression, variable.binding));
+        }
+        return ranges.map(range => new vscode.Location(document.uri, range));
+    }
+
+    public provideDocumentHighlights(document: vscode.TextDocument, position: vscode.Position): vscode.DocumentHighlight[] | undefined {
+        const variable = this.findVariable(document, position);
+        if (!variable) {
+            return undefined;
+        }
+
+        const { expression, analysis, binding, name } = variable;
+        if (!binding) {
+            // Highlight the other uses of the same unbound name, such as calls to a built-in
+            return analysis.references
+                .filter(reference => reference.name === name && !reference.binding)
+                .map(reference => new vscode.DocumentHighlight(this.toRange(document, expression, reference), vscode.DocumentHighlightKind.Read));
+        }
+
+        return [
+            new vscode.DocumentHighlight(this.toRange(document, expression, binding), vscode.DocumentHighlightKind.Write),
+            ...findReferences(analysis, binding).map(reference =>
+                new vscode.DocumentHighlight(this.toRange(document, expression, reference), vscode.DocumentHighlightKind.Read))
+        ];
+    }
+
+    private findVariable(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        parsed = parseExpressionAt(document, document.offsetAt(position))
+    ): VariableAtPosition | undefined {
+        const offset = document.offsetAt(position);
+        if (!parsed) {
+            return undefined;
+        }
+
+        const analysis = analyzeScopes(parsed.parsed.ast);
+        const variable = findVariableAt(analysis, offset - parsed.expression.offset);
+        return variable ? { expression: parsed.expression, analysis, name: variable.name, binding: variable.binding } : undefined;
+    }
+
+    /**
+     * While the expression does not parse, fall back to the closest preceding `$name :=` in the text
+     */
+    private provideTextualDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location | undefined {
+        const range = document.getWordRangeAtPosition(position, /\$[A-Za-z_][A-Za-z0-9_]*/);
+        if (!range) {
+            return undefined;
+        }
+
+        const name = document.getText(range).substring(1);
+        const binding = findBindingForReference(findDocumentBindings(document.getText()), name, document.offsetAt(range.start));
+        if (!binding) {
+            return undefined;
+        }
+
+        const start = document.positionAt(binding.offset);
+        return new vscode.Location(document.uri, new vscode.Range(start, start.translate(0, name.length + 1)));
+    }
+
+    private toRange(document: vscode.TextDocument, expression: DocumentExpression, span: { start: number; end: number }): vscode.Range {
+        return new vscode.Range(
+            document.positionAt(expression.offset + span.start),
+            document.positionAt(expression.offset + span.end)
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { getBuiltinFunction } from './builtinFunctions';
+import { parseExpressionAt } from './documentExpressions';
+import { parseExpression } from './parser';
+import { analyzeScopes, findReferences, findVariableAt, ScopeAnalysis } from './scopeAnalysis';
+
+/**
+ * Renames a `$variable` or lambda parameter together with the references bound to the same
+ * declaration. Names of built-in functions and renames that would make a reference refer
+ * to a different binding are refused.
+ */
+export class JsonataRenameProvider implements vscode.RenameProvider {
+    public prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+        const target = this.findTarget(document, position);
+        const start = document.positionAt(target.expressionOffset + target.span.start);
+        const end = document.positionAt(target.expressionOffset + target.span.end);
+        return new vscode.Range(start, end);
+    }
+
+    public provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): vscode.WorkspaceEdit {
+        const target = this.findTarget(document, position);
+        const name = newName.startsWith('$') ? newName.substring(1) : newName;
+
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            throw new Error(`'${newName}' is not a valid variable name`);
+        }
+        if (getBuiltinFunction(name)) {
+            throw new Error(`'$${name}' is the name of a built-in function`);
+        }
+
+        const { analysis, binding } = target;
+        if (binding.name === name) {
+            return new vscode.WorkspaceEdit();
+        }
+        if (binding.scope.bindings.some(other => other !== binding && other.name === name)) {
+            throw new Error(`'$${name}' is already bound in the same scope`);
+        }
+
+        const spans = [binding, ...findReferences(analysis, binding)].sort((a, b) => a.start - b.start);
+        let renamed = target.text;
+        for (const span of [...spans].reverse()) {
+            renamed = renamed.substring(0, span.start) + `$${name}` + renamed.substring(span.end);
+        }
+        if (!this.keepsBindings(analysis, renamed)) {
+            throw new Error(`Renaming to '$${name}' would change which binding some references refer to`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const span of spans) {
+            const start = document.positionAt(target.expressionOffset + span.start);
+            const end = document.positionAt(target.expressionOffset + span.end);
+            edit.replace(document.uri, new vscode.Range(start, end), `$${name}`);
+        }
+        return edit;
+    }
+
+    private findTarget(document: vscode.TextDocument, position: vscode.Position) {
+        const parsed = parseExpressionAt(document, document.offsetAt(position));
+        if (!parsed) {
+            throw new Error('Fix the syntax errors in the expression before renaming');
+        }
+
+        const analysis = analyzeScopes(parsed.parsed.ast);
+        const variable = findVariableAt(analysis, document.offsetAt(position) - parsed.expression.offset);
+        if (!variable) {
+            throw new Error('Only variables and function parameters can be renamed');
+        }
+        if (!variable.binding) {
+            throw new Error(getBuiltinFunction(variable.name)
+                ? `'$${variable.name}' is a built-in function`
+                : `'$${variable.name}' is not bound in this expression`);
+        }
+
+        return {
+            analysis,
+            binding: variable.binding,
+            span: variable.reference ?? variable.binding,
+            text: parsed.expression.text,
+            expressionOffset: parsed.expression.offset
+        };
+    }
+
+    /**
+     * Whether every reference of the renamed expression still resolves to the binding it did before
+     */
+    private keepsBindings(before: ScopeAnalysis, renamedText: string): boolean {
+        const after = analyzeScopes(parseExpression(renamedText).ast);
+        if (after.references.length !== before.references.length) {
+            return false;
+        }
+
+        return before.references.every((reference, index) => {
+            const previous = reference.binding ? before.bindings.indexOf(reference.binding) : -1;
+            const current = after.references[index].binding;
+            return previous === (current ? after.bindings.indexOf(current) : -1);
+        });
+    }
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import { getBuiltinFunction } from './builtinFunctions';
+import { DocumentExpression, getDocumentExpressions } from './documentExpressions';
+import { expressionCache } from './expressionCache';
+import { Token, tokenize } from './lexer';
+import { ExpressionNode, getChildren } from './parser';
+import { analyzeScopes } from './scopeAnalysis';
+
+/**
+ * The classification of a name or variable token, decided from the syntax tree
+ */
+interface Classification {
+    type: string;
+    modifiers: string[];
+}
+
+const TOKEN_TYPES = ['variable', 'parameter', 'function', 'property', 'quotedName', 'keyword', 'operator', 'regexp', 'string', 'number', 'comment'];
+const TOKEN_MODIFIERS = ['declaration', 'defaultLibrary', 'readonly'];
+
+/** Operators that are plain punctuation rather than something worth colouring */
+const PUNCTUATION = ['(', ')', '[', ']', '{', '}', ',', ';', ':'];
+
+/**
+ * Colours `.jsonata` documents from the parsed expression: variables, parameters, built-in and
+ * user-defined functions, path steps, backtick-quoted names, operators, regular expressions
+ * and comments. Expressions that do not parse are coloured from their tokens alone.
+ */
+export class JsonataSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    public static readonly legend = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+    public provideDocumentSemanticTokens(document: vscode.TextDocument): vscode.SemanticTokens {
+        const builder = new vscode.SemanticTokensBuilder(JsonataSemanticTokensProvider.legend);
+
+        for (const expression of getDocumentExpressions(document)) {
+            let tokens: Token[];
+            try {
+                tokens = tokenize(expression.text);
+            } catch {
+                continue;
+            }
+
+            const classifications = this.classifyNames(expression.text);
+            for (const token of tokens) {
+                const classification = classifications.get(token.start) ?? this.classifyToken(token);
+                if (classification) {
+                    this.push(builder, document, expression, token, classification);
+                }
+            }
+        }
+
+        return builder.build();
+    }
+
+    /**
+     * Classify names and variables by their role in the syntax tree, keyed by token offset
+     */
+    private classifyNames(text: string): Map<number, Classification> {
+        const classifications = new Map<number, Classification>();
+        const ast = expressionCache.parse(text)?.ast;
+        if (!ast) {
+            return classifications;
+        }
+
+        // Bindings whose value is a lambda are functions
+        const functionBindings = new Set<number>();
+        const callees = new Set<number>();
+        const visit = (node: ExpressionNode) => {
+            if (node.type === 'binary' && node.operator === ':=' && node.rhs.type === 'lambda') {
+                functionBindings.add(node.lhs.start);
+            } else if (node.type === 'call') {
+                callees.add(node.callee.start);
+            } else if (node.type === 'lambda') {
+                classifications.set(node.start, { type: 'keyword', modifiers: [] });
+            }
+            getChildren(node).forEach(visit);
+        };
+        visit(ast);
+
+        const analysis = analyzeScopes(ast);
+        for (const binding of analysis.bindings) {
+            const type = binding.kind === 'parameter' ? 'parameter' : functionBindings.has(binding.start) ? 'function' : 'variable';
+            classifications.set(binding.start, { type, modifiers: ['declaration'] });
+        }
+        for (const reference of analysis.references) {
+            if (reference.binding) {
+                const type = reference.binding.kind === 'parameter' ? 'parameter' : functionBindings.has(reference.binding.start) ? 'function' : 'variable';
+                classifications.set(reference.start, { type, modifiers: [] });
+            } else if (getBuiltinFunction(reference.name)) {
+                classifications.set(reference.start, { type: 'function', modifiers: ['defaultLibrary'] });
+            } else if (callees.has(reference.start)) {
+                classifications.set(reference.start, { type: 'function', modifiers: [] });
+            }
+        }
+
+        return classifications;
+    }
+
+    private classifyToken(token: Token): Classification | undefined {
+        switch (token.type) {
+            case 'comment':
+            case 'regex':
+            case 'string':
+            case 'number':
+                return { type: token.type === 'regex' ? 'regexp' : token.type, modifiers: [] };
+            case 'variable':
+                // `$` and `$$`, or a variable bound outside the expression
+                return { type: 'variable', modifiers: token.value === '' || token.value === '$' ? ['readonly', 'defaultLibrary'] : [] };
+            case 'name':
+                return { type: token.raw.startsWith('`') ? 'quotedName' : 'property', modifiers: [] };
+            case 'operator':
+                return PUNCTUATION.includes(token.value) ? undefined : { type: 'operator', modifiers: [] };
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Add a token, split per line since semantic tokens cannot span lines
+     */
+    private push(
+        builder: vscode.SemanticTokensBuilder,
+        document: vscode.TextDocument,
+        expression: DocumentExpression,
+        token: Token,
+        classification: Classification
+    ): void {
+        const start = document.positionAt(expression.offset + token.start);
+        const end = document.positionAt(expression.offset + token.end);
+
+        for (let line = start.line; line <= end.line; line++) {
+            const from = line === start.line ? start.character : 0;
+            const to = line === end.line ? end.character : document.lineAt(line).text.length;
+            if (to > from) {
+                builder.push(new vscode.Range(line, from, line, to), classification.type, classification.modifiers);
+            }
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import { BuiltinFunction, getBuiltinFunction } from './builtinFunctions';
+import { DocumentBinding, maskCommentsAndStrings, resolveBinding } from './documentBindings';
+import { describeSignatureType, parseSignature, ParsedSignature } from './signatureParser';
+
+/**
+ * The function call enclosing a position
+ */
+interface EnclosingCall {
+    /** Function name without the leading `$` */
+    name: string;
+    /** Offset of the `$` of the function name */
+    offset: number;
+    activeParameter: number;
+}
+
+/**
+ * Shows the signature of the built-in or document-defined function being called, highlighting
+ * the argument the cursor is in. Types come from JSONata's signature notation, e.g. `<s-nn?:s>`,
+ * including `<...>` annotations on the document's own lambdas.
+ */
+export class JsonataSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    public provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position): vscode.SignatureHelp | undefined {
+        const text = document.getText();
+        const masked = maskCommentsAndStrings(text);
+        const call = this.findEnclosingCall(masked, document.offsetAt(position));
+        if (!call) {
+            return undefined;
+        }
+
+        // A function bound in the document shadows a built-in of the same name
+        const binding = resolveBinding(text, call.name, call.offset);
+        let signature: vscode.SignatureInformation | undefined;
+        if (binding && binding.parameters !== undefined) {
+            signature = this.createLambdaSignature(binding);
+        } else if (!binding) {
+            const builtin = getBuiltinFunction(call.name);
+            signature = builtin ? this.createBuiltinSignature(builtin) : undefined;
+        }
+
+        if (!signature) {
+            return undefined;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = Math.min(call.activeParameter, Math.max(0, signature.parameters.length - 1));
+        return help;
+    }
+
+    private createBuiltinSignature(fn: BuiltinFunction): vscode.SignatureInformation {
+        const parsed = parseSignature(fn.signature);
+        const names = fn.parameters.map(parameter => parameter.variadic ? `...${parameter.name}` : parameter.name);
+        const documentation = fn.parameters.map(parameter => parameter.description);
+
+        const information = this.createSignatureInformation(`$${fn.name}`, names, parsed, fn.returns, documentation);
+        information.documentation = new vscode.MarkdownString(`${fn.description}\n\nSignature: \`${fn.signature}\``);
+        return information;
+    }
+
+    private createLambdaSignature(binding: DocumentBinding): vscode.SignatureInformation {
+        const parsed = binding.signature ? parseSignature(binding.signature) : undefined;
+        const returns = parsed?.returns ? describeSignatureType(parsed.returns) : undefined;
+
+        const information = this.createSignatureInformation(`$${binding.name}`, binding.parameters!, parsed, returns);
+        if (binding.signature) {
+            information.documentation = new vscode.MarkdownString(`Signature: \`${binding.signature}\``);
+        }
+        return information;
+    }
+
+    /**
+     * Build a `$name(param: type, param?: type): returns` label, with parameter label offsets
+     */
+    private createSignatureInformation(
+        name: string,
+        parameterNames: string[],
+        signature: ParsedSignature | undefined,
+        returns: string | undefined,
+        documentation: string[] = []
+    ): vscode.SignatureInformation {
+        let label = `${name}(`;
+        const parameters: vscode.ParameterInformation[] = [];
+
+        parameterNames.forEach((parameterName, index) => {
+            if (index > 0) {
+                label += ', ';
+            }
+
+            const typed = signature?.parameters[index];
+            let parameterLabel = parameterName + (typed?.optional ? '?' : '');
+            if (typed) {
+                parameterLabel += `: ${describeSignatureType(typed.type)}`;
+            }
+
+            const start = label.length;
+            label += parameterLabel;
+            parameters.push(new vscode.ParameterInformation([start, label.length], documentation[index]));
+        });
+
+        label += ')';
+        if (returns) {
+            label += `: ${returns}`;
+        }
+
+        const information = new vscode.SignatureInformation(label);
+        information.parameters = parameters;
+        return information;
+    }
+
+    /**
+     * Scan back from an offset to the unclosed `$name(` it is an argument of, counting the
+     * commas before it to find the active argument. Brackets of nested constructors and
+     * blocks are stepped out of; commas inside them do not count.
+     */
+    private findEnclosingCall(masked: string, offset: number): EnclosingCall | undefined {
+        let depth = 0;
+        let commas = 0;
+
+        for (let i = offset - 1; i >= 0; i--) {
+            const char = masked[i];
+
+            if (char === ')' || char === ']' || char === '}') {
+                depth++;
+            } else if (char === '(' || char === '[' || char === '{') {
+                if (depth > 0) {
+                    depth--;
+                    continue;
+                }
+
+                if (char === '(') {
+                    const callee = /\$([A-Za-z_][A-Za-z0-9_]*)\s*$/.exec(masked.substring(0, i));
+                    if (callee) {
+                        return { name: callee[1], offset: callee.index, activeParameter: commas };
+                    }
+                    // Parameters of a lambda definition are not arguments
+                    if (/(?:function|λ)\s*$/.test(masked.substring(0, i))) {
+                        return undefined;
+                    }
+                }
+
+                // Stepped out of a block or constructor: its commas belonged to it
+                commas = 0;
+            } else if (depth === 0 && char === ',') {
+                commas++;
+            } else if (depth === 0 && char === ';') {
+                commas = 0;
+            }
+        }
+
+        return undefined;
+    }
+}
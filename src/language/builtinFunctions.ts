@@ -0,0 +1,491 @@
+/**
+ * A parameter of a built-in JSONata function
+ */
+export interface BuiltinFunctionParameter {
+	name: string;
+	description: string;
+	optional?: boolean;
+	/** Accepts any number of arguments from this position on */
+	variadic?: boolean;
+}
+
+/**
+ * A built-in JSONata function
+ */
+export interface BuiltinFunction {
+	/** Name without the leading `$` */
+	name: string;
+	/** JSONata's own signature notation, e.g. `<s-nn?:s>` */
+	signature: string;
+	parameters: BuiltinFunctionParameter[];
+	returns: string;
+	description: string;
+	category: 'String' | 'Numeric' | 'Aggregation' | 'Boolean' | 'Array' | 'Object' | 'Date/Time' | 'Higher-order';
+}
+
+/**
+ * Every function bound in JSONata's static environment (jsonata 2.0)
+ */
+export const BUILTIN_FUNCTIONS: BuiltinFunction[] = [
+	// String functions
+	{
+		name: 'string', signature: '<x-b?:s>', returns: 'string', category: 'String',
+		description: 'Casts the argument to a string using JSON serialisation for objects and arrays. Pretty-prints when `prettify` is true.',
+		parameters: [
+			{ name: 'arg', description: 'The value to cast. Defaults to the context value.' },
+			{ name: 'prettify', description: 'Indent objects and arrays over multiple lines.', optional: true }
+		]
+	},
+	{
+		name: 'length', signature: '<s-:n>', returns: 'number', category: 'String',
+		description: 'Returns the number of characters in a string.',
+		parameters: [{ name: 'str', description: 'The string to measure. Defaults to the context value.' }]
+	},
+	{
+		name: 'substring', signature: '<s-nn?:s>', returns: 'string', category: 'String',
+		description: 'Returns the part of `str` starting at (zero-based) position `start`. A negative `start` counts from the end.',
+		parameters: [
+			{ name: 'str', description: 'The source string. Defaults to the context value.' },
+			{ name: 'start', description: 'Zero-based start position; negative values count from the end.' },
+			{ name: 'length', description: 'Maximum number of characters to return.', optional: true }
+		]
+	},
+	{
+		name: 'substringBefore', signature: '<s-s:s>', returns: 'string', category: 'String',
+		description: 'Returns the part of `str` before the first occurrence of `chars`, or `str` itself if it does not occur.',
+		parameters: [
+			{ name: 'str', description: 'The source string. Defaults to the context value.' },
+			{ name: 'chars', description: 'The substring to search for.' }
+		]
+	},
+	{
+		name: 'substringAfter', signature: '<s-s:s>', returns: 'string', category: 'String',
+		description: 'Returns the part of `str` after the first occurrence of `chars`, or `str` itself if it does not occur.',
+		parameters: [
+			{ name: 'str', description: 'The source string. Defaults to the context value.' },
+			{ name: 'chars', description: 'The substring to search for.' }
+		]
+	},
+	{
+		name: 'uppercase', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Returns a string with all characters converted to uppercase.',
+		parameters: [{ name: 'str', description: 'The string to convert. Defaults to the context value.' }]
+	},
+	{
+		name: 'lowercase', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Returns a string with all characters converted to lowercase.',
+		parameters: [{ name: 'str', description: 'The string to convert. Defaults to the context value.' }]
+	},
+	{
+		name: 'trim', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Normalises whitespace: collapses runs of whitespace to a single space and strips leading and trailing whitespace.',
+		parameters: [{ name: 'str', description: 'The string to trim. Defaults to the context value.' }]
+	},
+	{
+		name: 'pad', signature: '<s-ns?:s>', returns: 'string', category: 'String',
+		description: 'Pads `str` with `char` to a total of `width` characters. A positive width pads on the right, a negative width on the left.',
+		parameters: [
+			{ name: 'str', description: 'The string to pad. Defaults to the context value.' },
+			{ name: 'width', description: 'Total width; negative values pad on the left.' },
+			{ name: 'char', description: 'The padding character. Defaults to a space.', optional: true }
+		]
+	},
+	{
+		name: 'contains', signature: '<s-(sf):b>', returns: 'boolean', category: 'String',
+		description: 'Returns true if `str` contains `pattern`, which is either a string or a regular expression.',
+		parameters: [
+			{ name: 'str', description: 'The string to search. Defaults to the context value.' },
+			{ name: 'pattern', description: 'A string or regular expression to look for.' }
+		]
+	},
+	{
+		name: 'split', signature: '<s-(sf)n?:a<s>>', returns: 'array<string>', category: 'String',
+		description: 'Splits `str` into an array of substrings at each occurrence of `separator` (a string or regular expression).',
+		parameters: [
+			{ name: 'str', description: 'The string to split. Defaults to the context value.' },
+			{ name: 'separator', description: 'A string or regular expression to split on.' },
+			{ name: 'limit', description: 'Maximum number of substrings to return.', optional: true }
+		]
+	},
+	{
+		name: 'join', signature: '<a<s>s?:s>', returns: 'string', category: 'String',
+		description: 'Joins an array of strings into a single string, with an optional separator between them.',
+		parameters: [
+			{ name: 'array', description: 'The strings to join.' },
+			{ name: 'separator', description: 'Inserted between the strings. Defaults to an empty string.', optional: true }
+		]
+	},
+	{
+		name: 'match', signature: '<s-f<s:o>n?:a<o>>', returns: 'array<object>', category: 'String',
+		description: 'Applies a regular expression to `str` and returns an array of match objects (`match`, `index`, `groups`).',
+		parameters: [
+			{ name: 'str', description: 'The string to match against. Defaults to the context value.' },
+			{ name: 'pattern', description: 'The regular expression.' },
+			{ name: 'limit', description: 'Maximum number of matches to return.', optional: true }
+		]
+	},
+	{
+		name: 'replace', signature: '<s-(sf)(sf)n?:s>', returns: 'string', category: 'String',
+		description: 'Replaces occurrences of `pattern` in `str` with `replacement`, which may be a string (with `$0`, `$1`... references) or a function.',
+		parameters: [
+			{ name: 'str', description: 'The source string. Defaults to the context value.' },
+			{ name: 'pattern', description: 'A string or regular expression to replace.' },
+			{ name: 'replacement', description: 'A replacement string or a function returning one.' },
+			{ name: 'limit', description: 'Maximum number of replacements to make.', optional: true }
+		]
+	},
+	{
+		name: 'eval', signature: '<sx?:x>', returns: 'any', category: 'String',
+		description: 'Parses and evaluates the string `expr` as a JSONata expression, using `context` as its input.',
+		parameters: [
+			{ name: 'expr', description: 'The JSONata expression to evaluate.' },
+			{ name: 'context', description: 'The input for the expression. Defaults to the current context.', optional: true }
+		]
+	},
+	{
+		name: 'base64encode', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Converts an ASCII string to a base 64 representation.',
+		parameters: [{ name: 'str', description: 'The string to encode. Defaults to the context value.' }]
+	},
+	{
+		name: 'base64decode', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Converts base 64 encoded bytes to a string, using a UTF-8 Unicode codepage.',
+		parameters: [{ name: 'str', description: 'The base 64 string to decode. Defaults to the context value.' }]
+	},
+	{
+		name: 'encodeUrlComponent', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Encodes a URL component by replacing reserved characters with UTF-8 escape sequences.',
+		parameters: [{ name: 'str', description: 'The URL component to encode. Defaults to the context value.' }]
+	},
+	{
+		name: 'encodeUrl', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Encodes a URL by replacing certain characters with UTF-8 escape sequences.',
+		parameters: [{ name: 'str', description: 'The URL to encode. Defaults to the context value.' }]
+	},
+	{
+		name: 'decodeUrlComponent', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Decodes a URL component previously created by `$encodeUrlComponent`.',
+		parameters: [{ name: 'str', description: 'The URL component to decode. Defaults to the context value.' }]
+	},
+	{
+		name: 'decodeUrl', signature: '<s-:s>', returns: 'string', category: 'String',
+		description: 'Decodes a URL previously created by `$encodeUrl`.',
+		parameters: [{ name: 'str', description: 'The URL to decode. Defaults to the context value.' }]
+	},
+
+	// Numeric functions
+	{
+		name: 'number', signature: '<(nsb)-:n>', returns: 'number', category: 'Numeric',
+		description: 'Casts the argument to a number. Strings must be valid JSON numbers (or hex/octal/binary literals); booleans become 0 or 1.',
+		parameters: [{ name: 'arg', description: 'The value to cast. Defaults to the context value.' }]
+	},
+	{
+		name: 'abs', signature: '<n-:n>', returns: 'number', category: 'Numeric',
+		description: 'Returns the absolute value of a number.',
+		parameters: [{ name: 'number', description: 'The number. Defaults to the context value.' }]
+	},
+	{
+		name: 'floor', signature: '<n-:n>', returns: 'number', category: 'Numeric',
+		description: 'Rounds a number down to the nearest integer.',
+		parameters: [{ name: 'number', description: 'The number. Defaults to the context value.' }]
+	},
+	{
+		name: 'ceil', signature: '<n-:n>', returns: 'number', category: 'Numeric',
+		description: 'Rounds a number up to the nearest integer.',
+		parameters: [{ name: 'number', description: 'The number. Defaults to the context value.' }]
+	},
+	{
+		name: 'round', signature: '<n-n?:n>', returns: 'number', category: 'Numeric',
+		description: 'Rounds a number to `precision` decimal places using round-half-to-even.',
+		parameters: [
+			{ name: 'number', description: 'The number to round. Defaults to the context value.' },
+			{ name: 'precision', description: 'Number of decimal places; negative values round to powers of ten.', optional: true }
+		]
+	},
+	{
+		name: 'power', signature: '<n-n:n>', returns: 'number', category: 'Numeric',
+		description: 'Returns `base` raised to the power of `exponent`.',
+		parameters: [
+			{ name: 'base', description: 'The base. Defaults to the context value.' },
+			{ name: 'exponent', description: 'The exponent.' }
+		]
+	},
+	{
+		name: 'sqrt', signature: '<n-:n>', returns: 'number', category: 'Numeric',
+		description: 'Returns the square root of a number.',
+		parameters: [{ name: 'number', description: 'The number. Defaults to the context value.' }]
+	},
+	{
+		name: 'random', signature: '<:n>', returns: 'number', category: 'Numeric',
+		description: 'Returns a pseudo random number greater than or equal to zero and less than one.',
+		parameters: []
+	},
+	{
+		name: 'formatNumber', signature: '<n-so?:s>', returns: 'string', category: 'Numeric',
+		description: 'Formats a number as a string using an XPath/XQuery style picture string, e.g. `#,##0.00`.',
+		parameters: [
+			{ name: 'number', description: 'The number to format. Defaults to the context value.' },
+			{ name: 'picture', description: 'The picture string describing the format.' },
+			{ name: 'options', description: 'Overrides for the decimal format properties.', optional: true }
+		]
+	},
+	{
+		name: 'formatBase', signature: '<n-n?:s>', returns: 'string', category: 'Numeric',
+		description: 'Converts a number to a string in the given radix (2 to 36).',
+		parameters: [
+			{ name: 'number', description: 'The number to convert. Defaults to the context value.' },
+			{ name: 'radix', description: 'The radix to use. Defaults to 10.', optional: true }
+		]
+	},
+	{
+		name: 'formatInteger', signature: '<n-s:s>', returns: 'string', category: 'Numeric',
+		description: 'Formats an integer using an XPath picture string, e.g. `w` for words or `I` for roman numerals.',
+		parameters: [
+			{ name: 'number', description: 'The integer to format. Defaults to the context value.' },
+			{ name: 'picture', description: 'The picture string describing the format.' }
+		]
+	},
+	{
+		name: 'parseInteger', signature: '<s-s:n>', returns: 'number', category: 'Numeric',
+		description: 'Parses a string to an integer using the same picture string notation as `$formatInteger`.',
+		parameters: [
+			{ name: 'string', description: 'The string to parse. Defaults to the context value.' },
+			{ name: 'picture', description: 'The picture string describing the format.' }
+		]
+	},
+
+	// Aggregation functions
+	{
+		name: 'sum', signature: '<a<n>:n>', returns: 'number', category: 'Aggregation',
+		description: 'Returns the arithmetic sum of an array of numbers.',
+		parameters: [{ name: 'array', description: 'The numbers to add up.' }]
+	},
+	{
+		name: 'max', signature: '<a<n>:n>', returns: 'number', category: 'Aggregation',
+		description: 'Returns the maximum number in an array of numbers.',
+		parameters: [{ name: 'array', description: 'The numbers to compare.' }]
+	},
+	{
+		name: 'min', signature: '<a<n>:n>', returns: 'number', category: 'Aggregation',
+		description: 'Returns the minimum number in an array of numbers.',
+		parameters: [{ name: 'array', description: 'The numbers to compare.' }]
+	},
+	{
+		name: 'average', signature: '<a<n>:n>', returns: 'number', category: 'Aggregation',
+		description: 'Returns the mean value of an array of numbers.',
+		parameters: [{ name: 'array', description: 'The numbers to average.' }]
+	},
+
+	// Boolean functions
+	{
+		name: 'boolean', signature: '<x-:b>', returns: 'boolean', category: 'Boolean',
+		description: 'Casts the argument to a boolean using JSONata\'s truthiness rules.',
+		parameters: [{ name: 'arg', description: 'The value to cast. Defaults to the context value.' }]
+	},
+	{
+		name: 'not', signature: '<x-:b>', returns: 'boolean', category: 'Boolean',
+		description: 'Returns the boolean NOT of the argument, after casting it to a boolean.',
+		parameters: [{ name: 'arg', description: 'The value to negate. Defaults to the context value.' }]
+	},
+	{
+		name: 'exists', signature: '<x:b>', returns: 'boolean', category: 'Boolean',
+		description: 'Returns true if the argument expression evaluates to a value, false if it evaluates to nothing.',
+		parameters: [{ name: 'arg', description: 'The expression to test.' }]
+	},
+
+	// Array functions
+	{
+		name: 'count', signature: '<a:n>', returns: 'number', category: 'Array',
+		description: 'Returns the number of items in an array (1 for a single value, 0 for nothing).',
+		parameters: [{ name: 'array', description: 'The array to count.' }]
+	},
+	{
+		name: 'append', signature: '<xx:a>', returns: 'array', category: 'Array',
+		description: 'Returns an array containing the values of `array1` followed by the values of `array2`.',
+		parameters: [
+			{ name: 'array1', description: 'The first array or value.' },
+			{ name: 'array2', description: 'The array or value to append.' }
+		]
+	},
+	{
+		name: 'sort', signature: '<af?:a>', returns: 'array', category: 'Array',
+		description: 'Returns a sorted copy of an array. A comparator `function($l, $r)` returns true when `$l` should come after `$r`.',
+		parameters: [
+			{ name: 'array', description: 'The array to sort.' },
+			{ name: 'function', description: 'Comparator returning true to swap `$l` and `$r`.', optional: true }
+		]
+	},
+	{
+		name: 'reverse', signature: '<a:a>', returns: 'array', category: 'Array',
+		description: 'Returns an array containing the values of the argument in reverse order.',
+		parameters: [{ name: 'array', description: 'The array to reverse.' }]
+	},
+	{
+		name: 'shuffle', signature: '<a:a>', returns: 'array', category: 'Array',
+		description: 'Returns an array containing the values of the argument in random order.',
+		parameters: [{ name: 'array', description: 'The array to shuffle.' }]
+	},
+	{
+		name: 'distinct', signature: '<x:x>', returns: 'array', category: 'Array',
+		description: 'Returns an array with duplicate values removed.',
+		parameters: [{ name: 'array', description: 'The array to deduplicate.' }]
+	},
+	{
+		name: 'zip', signature: '<a+>', returns: 'array', category: 'Array',
+		description: 'Returns a convolved (zipped) array containing grouped arrays of values from each argument, truncated to the shortest.',
+		parameters: [{ name: 'arrays', description: 'The arrays to zip together.', variadic: true }]
+	},
+
+	// Object functions
+	{
+		name: 'keys', signature: '<x-:a<s>>', returns: 'array<string>', category: 'Object',
+		description: 'Returns an array of the keys of an object, or the de-duplicated keys of all objects in an array.',
+		parameters: [{ name: 'object', description: 'The object or array of objects. Defaults to the context value.' }]
+	},
+	{
+		name: 'lookup', signature: '<x-s:x>', returns: 'any', category: 'Object',
+		description: 'Returns the value associated with `key` in an object, or in each object of an array.',
+		parameters: [
+			{ name: 'object', description: 'The object or array of objects. Defaults to the context value.' },
+			{ name: 'key', description: 'The key to look up.' }
+		]
+	},
+	{
+		name: 'spread', signature: '<x-:a<o>>', returns: 'array<object>', category: 'Object',
+		description: 'Splits an object into an array of single key/value objects.',
+		parameters: [{ name: 'object', description: 'The object to split. Defaults to the context value.' }]
+	},
+	{
+		name: 'merge', signature: '<a<o>:o>', returns: 'object', category: 'Object',
+		description: 'Merges an array of objects into a single object; later keys override earlier ones.',
+		parameters: [{ name: 'array', description: 'The objects to merge.' }]
+	},
+	{
+		name: 'sift', signature: '<o-f?:o>', returns: 'object', category: 'Object',
+		description: 'Returns an object containing only the key/value pairs for which `function($v, $k)` returns true.',
+		parameters: [
+			{ name: 'object', description: 'The object to filter. Defaults to the context value.' },
+			{ name: 'function', description: 'Predicate called with the value, key and object.' }
+		]
+	},
+	{
+		name: 'each', signature: '<o-f:a>', returns: 'array', category: 'Object',
+		description: 'Returns an array containing the results of `function($v, $k)` applied to each key/value pair of an object.',
+		parameters: [
+			{ name: 'object', description: 'The object to iterate. Defaults to the context value.' },
+			{ name: 'function', description: 'Function called with the value, key and object.' }
+		]
+	},
+	{
+		name: 'error', signature: '<s?:x>', returns: 'never', category: 'Object',
+		description: 'Deliberately throws an error with an optional message.',
+		parameters: [{ name: 'message', description: 'The error message.', optional: true }]
+	},
+	{
+		name: 'assert', signature: '<bs?:x>', returns: 'undefined', category: 'Object',
+		description: 'Throws an error with `message` if `condition` is false.',
+		parameters: [
+			{ name: 'condition', description: 'The condition to check.' },
+			{ name: 'message', description: 'The error message.', optional: true }
+		]
+	},
+	{
+		name: 'type', signature: '<x:s>', returns: 'string', category: 'Object',
+		description: 'Returns the type of the argument: `null`, `number`, `string`, `boolean`, `array`, `object` or `function`.',
+		parameters: [{ name: 'value', description: 'The value to inspect.' }]
+	},
+	{
+		name: 'clone', signature: '<(oa)-:o>', returns: 'object', category: 'Object',
+		description: 'Returns a deep copy of an object or array.',
+		parameters: [{ name: 'value', description: 'The value to copy. Defaults to the context value.' }]
+	},
+
+	// Date/time functions
+	{
+		name: 'now', signature: '<s?s?:s>', returns: 'string', category: 'Date/Time',
+		description: 'Returns the evaluation start timestamp in ISO 8601 format, or formatted with an optional picture string and timezone.',
+		parameters: [
+			{ name: 'picture', description: 'XPath picture string for the output format.', optional: true },
+			{ name: 'timezone', description: 'Timezone offset, e.g. `-0500`.', optional: true }
+		]
+	},
+	{
+		name: 'millis', signature: '<:n>', returns: 'number', category: 'Date/Time',
+		description: 'Returns the evaluation start time as milliseconds since the Unix epoch.',
+		parameters: []
+	},
+	{
+		name: 'fromMillis', signature: '<n-s?s?:s>', returns: 'string', category: 'Date/Time',
+		description: 'Converts milliseconds since the Unix epoch to a timestamp string, in ISO 8601 or the given picture format.',
+		parameters: [
+			{ name: 'number', description: 'Milliseconds since the epoch. Defaults to the context value.' },
+			{ name: 'picture', description: 'XPath picture string for the output format.', optional: true },
+			{ name: 'timezone', description: 'Timezone offset, e.g. `+0100`.', optional: true }
+		]
+	},
+	{
+		name: 'toMillis', signature: '<s-s?:n>', returns: 'number', category: 'Date/Time',
+		description: 'Converts a timestamp string (ISO 8601 or matching the picture) to milliseconds since the Unix epoch.',
+		parameters: [
+			{ name: 'timestamp', description: 'The timestamp to convert. Defaults to the context value.' },
+			{ name: 'picture', description: 'XPath picture string describing the input format.', optional: true }
+		]
+	},
+
+	// Higher-order functions
+	{
+		name: 'map', signature: '<af>', returns: 'array', category: 'Higher-order',
+		description: 'Returns an array containing the results of applying `function($v, $i, $a)` to each value of `array`.',
+		parameters: [
+			{ name: 'array', description: 'The array to map over.' },
+			{ name: 'function', description: 'Function called with the value, index and array.' }
+		]
+	},
+	{
+		name: 'filter', signature: '<af>', returns: 'array', category: 'Higher-order',
+		description: 'Returns an array containing only the values for which `function($v, $i, $a)` returns true.',
+		parameters: [
+			{ name: 'array', description: 'The array to filter.' },
+			{ name: 'function', description: 'Predicate called with the value, index and array.' }
+		]
+	},
+	{
+		name: 'single', signature: '<af?>', returns: 'any', category: 'Higher-order',
+		description: 'Returns the one value for which `function($v, $i, $a)` returns true, throwing if there is not exactly one.',
+		parameters: [
+			{ name: 'array', description: 'The array to search.' },
+			{ name: 'function', description: 'Predicate called with the value, index and array.', optional: true }
+		]
+	},
+	{
+		name: 'reduce', signature: '<afj?:j>', returns: 'any', category: 'Higher-order',
+		description: 'Reduces an array to a single value by repeatedly applying `function($acc, $v)`, starting from `init`.',
+		parameters: [
+			{ name: 'array', description: 'The array to reduce.' },
+			{ name: 'function', description: 'Function called with the accumulator and the next value.' },
+			{ name: 'init', description: 'Initial value of the accumulator.', optional: true }
+		]
+	}
+];
+
+const builtinFunctionsByName = new Map(BUILTIN_FUNCTIONS.map(fn => [fn.name, fn]));
+
+/**
+ * Look up a built-in function by name, with or without the leading `$`
+ */
+export function getBuiltinFunction(name: string): BuiltinFunction | undefined {
+	return builtinFunctionsByName.get(name.startsWith('$') ? name.substring(1) : name);
+}
+
+/**
+ * Format a function's parameter list for display, e.g. `$substring(str, start, length?)`
+ */
+export function formatFunctionSignature(fn: BuiltinFunction): string {
+	const parameters = fn.parameters.map(parameter => {
+		if (parameter.variadic) {
+			return `...${parameter.name}`;
+		}
+		return parameter.optional ? `${parameter.name}?` : parameter.name;
+	});
+	return `$${fn.name}(${parameters.join(', ')}): ${fn.returns}`;
+}
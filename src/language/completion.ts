@@ -0,0 +1,127 @@
+import { BUILTIN_FUNCTIONS, BuiltinFunction, formatFunctionSignature } from './builtinFunctions';
+import { DocumentBinding, findBindingsAt } from './documentBindings';
+import { getKeysAtPath, getPathAtOffset } from './pathContext';
+import { SampleDataPathResolver } from '../validation/SampleDataPathResolver';
+import { findWordAt } from '../utils/stringUtils';
+
+/**
+ * An editor-independent completion item, replacing the text between `start` and `end`
+ */
+export interface CompletionCandidate {
+	label: string;
+	kind: 'function' | 'variable' | 'field';
+	/** Shown right after the label, e.g. the signature */
+	labelDetail?: string;
+	/** Shown at the end of the label, e.g. the category */
+	labelDescription?: string;
+	detail: string;
+	/** Markdown */
+	documentation?: string;
+	/** Defaults to the label */
+	insertText?: string;
+	/** Whether `insertText` is a snippet with `${1:placeholder}` tab stops */
+	isSnippet?: boolean;
+	sortText?: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Completion for built-in JSONata functions, the document's own `$name :=` bindings and,
+ * when sample input is known for the document, the field names valid at the offset
+ */
+export function getCompletions(text: string, offset: number, sampleInput?: any): CompletionCandidate[] | undefined {
+	const word = findWordAt(text, offset, /\$[A-Za-z0-9_]*/);
+	if (!word) {
+		return getFieldCompletions(text, offset, sampleInput);
+	}
+	if (text.startsWith('$$', word.start)) {
+		return undefined;
+	}
+
+	const candidates: CompletionCandidate[] = [];
+	const seen = new Set<string>();
+
+	for (const binding of findBindingsAt(text, word.start)) {
+		// Skip the binding currently being typed and names already offered
+		if (word.start === binding.offset || seen.has(binding.name)) {
+			continue;
+		}
+		seen.add(binding.name);
+		candidates.push(createBindingCandidate(binding, word));
+	}
+
+	for (const fn of BUILTIN_FUNCTIONS) {
+		candidates.push(createBuiltinCandidate(fn, word));
+	}
+
+	return candidates;
+}
+
+/**
+ * Complete field names from the sample input, following the path at the offset
+ */
+function getFieldCompletions(text: string, offset: number, sampleInput: any): CompletionCandidate[] | undefined {
+	if (sampleInput === undefined) {
+		return undefined;
+	}
+
+	const path = getPathAtOffset(text, offset);
+	if (!path) {
+		return undefined;
+	}
+
+	const start = offset - path.prefix.length;
+	return getKeysAtPath(new SampleDataPathResolver(sampleInput), path.steps).map(key => ({
+		label: key,
+		kind: 'field',
+		detail: path.steps.length > 0 ? `${path.steps.join('.')}.${key}` : key,
+		// Names that are not plain identifiers have to be quoted with backticks
+		insertText: /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? undefined : `\`${key}\``,
+		start,
+		end: offset
+	}));
+}
+
+function createBuiltinCandidate(fn: BuiltinFunction, range: { start: number; end: number }): CompletionCandidate {
+	return {
+		label: `$${fn.name}`,
+		kind: 'function',
+		labelDetail: fn.signature,
+		labelDescription: fn.category,
+		detail: formatFunctionSignature(fn),
+		documentation: fn.description,
+		insertText: createCallSnippet(fn.name, fn.parameters.filter(p => !p.optional).map(p => p.name)),
+		isSnippet: true,
+		sortText: `1_${fn.name}`,
+		...range
+	};
+}
+
+function createBindingCandidate(binding: DocumentBinding, range: { start: number; end: number }): CompletionCandidate {
+	const isFunction = binding.parameters !== undefined;
+	return {
+		label: `$${binding.name}`,
+		kind: isFunction ? 'function' : 'variable',
+		labelDetail: binding.signature,
+		labelDescription: 'this document',
+		detail: isFunction ? `$${binding.name}(${binding.parameters!.join(', ')})` : `$${binding.name}`,
+		insertText: isFunction ? createCallSnippet(binding.name, binding.parameters!) : undefined,
+		isSnippet: isFunction,
+		// Bindings from the document come before built-ins
+		sortText: `0_${binding.name}`,
+		...range
+	};
+}
+
+/**
+ * Create a `$name(arg1, arg2)` snippet with a tab stop for each argument
+ */
+function createCallSnippet(name: string, parameters: string[]): string {
+	const placeholders = parameters.map((parameter, index) => `\${${index + 1}:${escapeSnippet(parameter)}}`);
+	return `${escapeSnippet(`$${name}`)}(${placeholders.join(', ')})`;
+}
+
+function escapeSnippet(text: string): string {
+	return text.replace(/[\\$}]/g, match => `\\${match}`);
+}
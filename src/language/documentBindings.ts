@@ -0,0 +1,144 @@
+import { locateJsonataExpressions } from '../validation/expressionExtractor';
+import { expressionCache } from './expressionCache';
+import { analyzeScopes, findBindingsInScope, findVariableAt, ScopeAnalysis, VariableBinding } from './scopeAnalysis';
+
+/**
+ * A `$name := ...` binding found in a document, or a function parameter or `@` / `#` variable
+ * when the expression parses
+ */
+export interface DocumentBinding {
+	/** Name without the leading `$` */
+	name: string;
+	/** Offset of the `$` of the bound name */
+	offset: number;
+	kind: VariableBinding['kind'];
+	/** Parameter names (with `$`) when the bound value is a lambda */
+	parameters?: string[];
+	/** The `<...>` signature annotation of a lambda, if any */
+	signature?: string;
+}
+
+/**
+ * Find the variable and function bindings in a document, in document order.
+ * A name bound more than once (e.g. in different blocks) appears once per binding.
+ *
+ * This is a textual scan, so it also works while the document does not parse,
+ * which is most of the time while typing.
+ */
+export function findDocumentBindings(text: string): DocumentBinding[] {
+	const masked = maskCommentsAndStrings(text);
+	const bindingRegex = /\$([A-Za-z_][A-Za-z0-9_]*)\s*:=\s*(?:(?:function|λ)\s*\(([^)]*)\)\s*(<[^>{]*(?:>[^>{]*)*>)?)?/g;
+	const bindings: DocumentBinding[] = [];
+	let match;
+
+	while ((match = bindingRegex.exec(masked)) !== null) {
+		const name = match[1];
+		const binding: DocumentBinding = { name, offset: match.index, kind: 'assignment' };
+		if (match[2] !== undefined) {
+			binding.parameters = match[2].split(',').map(parameter => parameter.trim()).filter(parameter => parameter.length > 0);
+			if (match[3]) {
+				binding.signature = match[3].trim();
+			}
+		}
+		bindings.push(binding);
+	}
+
+	return bindings;
+}
+
+/**
+ * Pick the binding a `$name` reference at an offset refers to. While the expression around it
+ * parses, JSONata's scoping decides, as it does for rename and go to definition; otherwise the
+ * closest `$name :=` before it is taken.
+ */
+export function resolveBinding(text: string, name: string, offset: number): DocumentBinding | undefined {
+	const scoped = analyzeExpressionAt(text, offset);
+	const variable = scoped ? findVariableAt(scoped.analysis, offset - scoped.offset) : undefined;
+	if (!scoped || variable?.name !== name) {
+		return findBindingForReference(findDocumentBindings(text), name, offset);
+	}
+	return variable.binding ? toDocumentBinding(findDocumentBindings(text), scoped.offset, variable.binding) : undefined;
+}
+
+/**
+ * The bindings a `$name` at an offset can refer to, one per name: those in scope while the
+ * expression around it parses, otherwise every `$name :=` in the document
+ */
+export function findBindingsAt(text: string, offset: number): DocumentBinding[] {
+	const bindings = findDocumentBindings(text);
+	const scoped = analyzeExpressionAt(text, offset);
+	if (!scoped) {
+		return bindings;
+	}
+	return findBindingsInScope(scoped.analysis, offset - scoped.offset)
+		.map(binding => toDocumentBinding(bindings, scoped.offset, binding));
+}
+
+function analyzeExpressionAt(text: string, offset: number): { offset: number; analysis: ScopeAnalysis } | undefined {
+	const expression = locateJsonataExpressions(text).find(candidate =>
+		offset >= candidate.offset && offset <= candidate.offset + candidate.text.length);
+	const parsed = expression ? expressionCache.parse(expression.text) : undefined;
+	return expression && parsed ? { offset: expression.offset, analysis: analyzeScopes(parsed.ast) } : undefined;
+}
+
+/**
+ * A binding of the syntax tree as a document binding. The textual scan knows the parameters
+ * and signature of the lambdas bound with `:=`.
+ */
+function toDocumentBinding(documentBindings: DocumentBinding[], expressionOffset: number, binding: VariableBinding): DocumentBinding {
+	const offset = expressionOffset + binding.start;
+	const assignment = binding.kind === 'assignment'
+		? documentBindings.find(candidate => candidate.offset === offset)
+		: undefined;
+	return assignment ?? { name: binding.name, offset, kind: binding.kind };
+}
+
+/**
+ * Pick the binding a `$name` reference at an offset most likely refers to, from the text alone:
+ * the closest one before it
+ */
+export function findBindingForReference(bindings: DocumentBinding[], name: string, offset: number): DocumentBinding | undefined {
+	const candidates = bindings.filter(binding => binding.name === name);
+	const preceding = candidates.filter(binding => binding.offset <= offset);
+	return preceding.length > 0 ? preceding[preceding.length - 1] : candidates[0];
+}
+
+/**
+ * Replace the contents of comments and string literals with spaces, keeping offsets intact
+ */
+export function maskCommentsAndStrings(text: string): string {
+	let result = '';
+	let i = 0;
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === '/' && text[i + 1] === '*') {
+			const end = text.indexOf('*/', i + 2);
+			const stop = end === -1 ? text.length : end + 2;
+			result += text.substring(i, stop).replace(/[^\n]/g, ' ');
+			i = stop;
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			let j = i + 1;
+			while (j < text.length && text[j] !== char) {
+				j += text[j] === '\\' ? 2 : 1;
+			}
+			if (j >= text.length) {
+				// Unterminated string runs to the end of the text
+				result += char + text.substring(i + 1).replace(/[^\n]/g, ' ');
+				break;
+			}
+			result += char + text.substring(i + 1, j).replace(/[^\n]/g, ' ') + char;
+			i = j + 1;
+			continue;
+		}
+
+		result += char;
+		i++;
+	}
+
+	return result;
+}
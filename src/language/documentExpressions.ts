@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { locateJsonataExpressions } from '../validation/expressionExtractor';
+import { expressionCache } from './expressionCache';
+import { ParsedExpression } from './parser';
+
+/**
+ * One of the expressions of a `.jsonata` document
+ */
+export interface DocumentExpression {
+	/** The document range of the expression, without surrounding whitespace */
+	range: vscode.Range;
+	/** Document offset of the start of the expression */
+	offset: number;
+	text: string;
+}
+
+/**
+ * The expressions of a document, split the same way the validator splits them
+ */
+export function getDocumentExpressions(document: vscode.TextDocument): DocumentExpression[] {
+	return locateJsonataExpressions(document.getText()).map(expression => ({
+		range: new vscode.Range(expression.line, expression.character, expression.endLine, expression.endCharacter),
+		offset: expression.offset,
+		text: expression.text
+	}));
+}
+
+/**
+ * Parse the document expression containing an offset. Returns undefined when there is none
+ * or it does not parse.
+ */
+export function parseExpressionAt(
+	document: vscode.TextDocument,
+	offset: number
+): { expression: DocumentExpression; parsed: ParsedExpression } | undefined {
+	const expression = getDocumentExpressions(document).find(candidate =>
+		offset >= candidate.offset && offset <= candidate.offset + candidate.text.length);
+	if (!expression) {
+		return undefined;
+	}
+
+	const parsed = expressionCache.parse(expression.text);
+	return parsed ? { expression, parsed } : undefined;
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import jsonata from 'jsonata';
+import { parseExpression, ParsedExpression } from './parser';
+import { findSyntaxErrors, JsonataSyntaxError } from '../validation/syntaxErrors';
+
+/**
+ * What is known about one expression text, each part worked out when first asked for
+ */
+interface CacheEntry {
+    /** Our syntax tree, or null when the expression does not parse */
+    parsed?: ParsedExpression | null;
+    syntaxErrors?: JsonataSyntaxError[];
+    /** jsonata's own syntax tree, or null when the expression does not compile */
+    jsonataAst?: any;
+}
+
+/**
+ * Parse results by expression, so that validating a document after a keystroke only parses the
+ * expression that changed, and the outline, semantic tokens and navigation reuse the trees the
+ * validator built. Keyed by a hash of the expression text; the least recently used entries are
+ * dropped beyond `maxEntries`.
+ *
+ * Cached trees are shared, so callers must not modify them.
+ */
+export class ExpressionCache {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number = 500) {}
+
+    /**
+     * Parses an expression with the position-preserving parser, or returns undefined when it does not parse
+     */
+    public parse(text: string): ParsedExpression | undefined {
+        const entry = this.getEntry(text);
+        if (entry.parsed === undefined) {
+            try {
+                entry.parsed = parseExpression(text);
+            } catch {
+                entry.parsed = null;
+            }
+        }
+        return entry.parsed ?? undefined;
+    }
+
+    /**
+     * Gets the syntax errors jsonata reports for an expression, see `findSyntaxErrors`
+     */
+    public getSyntaxErrors(text: string): JsonataSyntaxError[] {
+        const entry = this.getEntry(text);
+        entry.syntaxErrors ??= findSyntaxErrors(text);
+        return entry.syntaxErrors;
+    }
+
+    /**
+     * Gets the syntax tree jsonata compiles an expression to, or undefined when it does not compile
+     */
+    public getJsonataAst(text: string): any {
+        const entry = this.getEntry(text);
+        if (entry.jsonataAst === undefined) {
+            try {
+                entry.jsonataAst = jsonata(text).ast();
+            } catch {
+                entry.jsonataAst = null;
+            }
+        }
+        return entry.jsonataAst ?? undefined;
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    private getEntry(text: string): CacheEntry {
+        const key = createHash('sha1').update(text).digest('base64');
+        let entry = this.entries.get(key);
+        if (entry) {
+            // Move to the end, the most recently used
+            this.entries.delete(key);
+        } else {
+            entry = {};
+            if (this.entries.size >= this.maxEntries) {
+                this.entries.delete(this.entries.keys().next().value!);
+            }
+        }
+        this.entries.set(key, entry);
+        return entry;
+    }
+}
+
+/**
+ * The cache shared by the validator and the language features
+ */
+export const expressionCache = new ExpressionCache();
@@ -0,0 +1,66 @@
+import jsonata from 'jsonata';
+import { PrintOptions, printExpression } from './printer';
+import { locateJsonataExpressions } from '../validation/expressionExtractor';
+
+/**
+ * Replace the text between `start` and `end` offsets
+ */
+export interface TextReplacement {
+	start: number;
+	end: number;
+	newText: string;
+}
+
+/**
+ * Format JSONata text by re-printing each expression from its syntax tree, or only the
+ * expressions an offset range touches. Expressions that do not parse are left untouched,
+ * and so is any expression whose re-printed form would not compile to the same jsonata AST.
+ */
+export function formatJsonata(text: string, options: PrintOptions, range?: { start: number; end: number }): TextReplacement[] {
+	const replacements: TextReplacement[] = [];
+
+	for (const expression of locateJsonataExpressions(text)) {
+		const end = expression.offset + expression.text.length;
+		if (range && (range.end < expression.offset || range.start > end)) {
+			continue;
+		}
+
+		const lineStart = expression.offset - expression.character;
+		const lineText = text.substring(lineStart, expression.offset);
+		const baseIndent = lineText.substring(0, lineText.length - lineText.trimStart().length);
+
+		let formatted: string;
+		try {
+			formatted = printExpression(expression.text, options, expression.character, baseIndent);
+		} catch {
+			// Leave expressions with syntax errors for the validator to report
+			continue;
+		}
+
+		if (formatted !== expression.text && isEquivalent(expression.text, formatted)) {
+			replacements.push({ start: expression.offset, end, newText: formatted });
+		}
+	}
+
+	return replacements;
+}
+
+/**
+ * Guard against formatter bugs: the re-printed expression must compile to the same tree
+ */
+function isEquivalent(original: string, formatted: string): boolean {
+	try {
+		return serializeAst(original) === serializeAst(formatted);
+	} catch {
+		return false;
+	}
+}
+
+function serializeAst(expression: string): string {
+	return JSON.stringify(jsonata(expression).ast(), (key, value) => {
+		if (key === 'position') {
+			return undefined;
+		}
+		return value instanceof RegExp ? value.toString() : value;
+	});
+}
@@ -0,0 +1,219 @@
+import { BuiltinFunction, formatFunctionSignature, getBuiltinFunction } from './builtinFunctions';
+import { DocumentBinding, maskCommentsAndStrings, resolveBinding } from './documentBindings';
+import { findOperatorAt } from './operators';
+import { getPathAtOffset } from './pathContext';
+import { SampleDataPathResolver } from '../validation/SampleDataPathResolver';
+import { findWordAt } from '../utils/stringUtils';
+
+/**
+ * Editor-independent hover content, in Markdown, for the text between `start` and `end`
+ */
+export interface HoverContent {
+	markdown: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Evaluates a template in which a variable reference is wrapped in a call to the `probe`
+ * function, returning the values the probe was called with, or undefined when the template
+ * could not be evaluated. The evaluation is the caller's to bound in time and memory.
+ */
+export type ProbeEvaluator = (expression: string, probe: string) => Promise<any[] | undefined>;
+
+/**
+ * What a document's hovers can draw on besides its text
+ */
+export interface HoverContext {
+	/** The sample input of the document, looked up for field paths */
+	sampleInput?: any;
+	/** Evaluates the template against the playground input, for variable values */
+	evaluate?: ProbeEvaluator;
+}
+
+const PROBE_FUNCTION = '__hoverProbe';
+const MAX_VALUE_LENGTH = 1500;
+const KEYWORDS = ['and', 'or', 'in', 'true', 'false', 'null', 'function'];
+const BINDING_KINDS: Record<DocumentBinding['kind'], string> = {
+	assignment: 'Bound',
+	parameter: 'Function parameter',
+	focus: 'Bound with `@`',
+	index: 'Position bound with `#`'
+};
+
+/**
+ * Documentation for built-in functions and operators, for `$variables` where they are bound
+ * and, when the template can be evaluated for the playground input, their value for it, and
+ * for field paths with their values in the sample input
+ */
+export async function getHover(text: string, offset: number, context: HoverContext = {}): Promise<HoverContent | undefined> {
+	const masked = maskCommentsAndStrings(text);
+
+	// Nothing to explain inside comments and strings
+	if (masked[offset] !== text[offset]) {
+		return undefined;
+	}
+
+	const variable = findWordAt(text, offset, /\$[A-Za-z_][A-Za-z0-9_]*/);
+	if (variable) {
+		return getVariableHover(text, masked, variable, context.evaluate);
+	}
+
+	const operator = findOperatorAt(masked, offset);
+	if (operator) {
+		const markdown = `**${operator.info.title}** \`${operator.info.operator}\`\n\n`
+			+ `${operator.info.description}\n\n`
+			+ codeblock(operator.info.example, 'jsonata');
+		return { markdown, start: operator.start, end: operator.start + operator.info.operator.length };
+	}
+
+	const field = findWordAt(masked, offset, /(?<![$\w])[A-Za-z_][A-Za-z0-9_]*/);
+	if (field && !KEYWORDS.includes(masked.substring(field.start, field.end))) {
+		return getFieldHover(text, field, context.sampleInput);
+	}
+
+	return undefined;
+}
+
+/**
+ * The input path a field name selects, e.g. `departments.employees.salary`, with its sample values
+ */
+function getFieldHover(text: string, range: { start: number; end: number }, sampleInput: any): HoverContent | undefined {
+	const path = getPathAtOffset(text, range.end);
+	if (!path) {
+		return undefined;
+	}
+
+	const steps = [...path.steps, path.prefix];
+	let markdown = `**Field** \`${steps.join('.')}\``;
+	if (sampleInput !== undefined) {
+		const resolver = new SampleDataPathResolver(sampleInput);
+		let values = resolver.root();
+		for (const step of steps) {
+			values = values ? resolver.child(values, step) ?? null : null;
+		}
+		markdown += values
+			? describeSample(values)
+			: '\n\n---\n\n_Not found in the sample input._';
+	}
+
+	return { markdown, ...range };
+}
+
+async function getVariableHover(
+	text: string,
+	masked: string,
+	range: { start: number; end: number },
+	evaluate: ProbeEvaluator | undefined
+): Promise<HoverContent | undefined> {
+	const name = text.substring(range.start + 1, range.end);
+	const binding = resolveBinding(text, name, range.start);
+	const builtin = getBuiltinFunction(name);
+
+	let markdown: string;
+	if (binding) {
+		markdown = describeBinding(text, binding);
+	} else if (builtin) {
+		markdown = describeBuiltin(builtin);
+	} else {
+		return undefined;
+	}
+
+	// Functions have no interesting value to show
+	const isFunction = binding ? binding.parameters !== undefined : true;
+	if (binding && !isFunction && evaluate) {
+		const values = await evaluateVariable(text, masked, name, range.start, evaluate);
+		markdown += describeValue(values);
+	}
+
+	return { markdown, ...range };
+}
+
+function describeBinding(text: string, binding: DocumentBinding): string {
+	const lineNumber = text.substring(0, binding.offset).split('\n').length;
+	const lineEnd = text.indexOf('\n', binding.offset);
+	// An assignment is shown from its name on, other bindings with the whole line they are on
+	const lineStart = binding.kind === 'assignment' ? binding.offset : text.lastIndexOf('\n', binding.offset) + 1;
+	const line = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd).trim();
+
+	let markdown = codeblock(line, 'jsonata') + `${BINDING_KINDS[binding.kind]} on line ${lineNumber}`;
+	if (binding.signature) {
+		markdown += ` with signature \`${binding.signature}\``;
+	}
+	if (getBuiltinFunction(binding.name)) {
+		markdown += `, shadowing the built-in \`$${binding.name}\``;
+	}
+	return markdown + '\n\n';
+}
+
+function describeBuiltin(fn: BuiltinFunction): string {
+	let markdown = codeblock(formatFunctionSignature(fn), 'jsonata') + `${fn.description}\n\n`;
+	for (const parameter of fn.parameters) {
+		markdown += `- \`${parameter.name}\`${parameter.optional ? ' (optional)' : ''}: ${parameter.description}\n`;
+	}
+	return markdown + `\nSignature: \`${fn.signature}\``;
+}
+
+function describeValue(values: any[] | undefined): string {
+	const separator = '\n\n---\n\n';
+	if (values === undefined) {
+		return separator + '_Value unavailable: the template does not evaluate for the playground input._';
+	}
+	if (values.length === 0) {
+		return separator + '_Not evaluated for the playground input._';
+	}
+
+	let json = values[0] === undefined ? 'undefined' : JSON.stringify(values[0], null, 2);
+	if (json.length > MAX_VALUE_LENGTH) {
+		json = json.substring(0, MAX_VALUE_LENGTH) + '\n…';
+	}
+
+	const heading = values.length > 1
+		? `**Playground value** (first of ${values.length} evaluations):\n\n`
+		: '**Playground value:**\n\n';
+	return separator + heading + codeblock(json, 'json');
+}
+
+function describeSample(values: any[]): string {
+	let json = JSON.stringify(values[0], null, 2);
+	if (json.length > MAX_VALUE_LENGTH) {
+		json = json.substring(0, MAX_VALUE_LENGTH) + '\n…';
+	}
+
+	const heading = values.length > 1
+		? `**Sample value** (first of ${values.length}):\n\n`
+		: '**Sample value:**\n\n';
+	return '\n\n---\n\n' + heading + codeblock(json, 'json');
+}
+
+/**
+ * A fenced code block, as `MarkdownString.appendCodeblock` writes it
+ */
+function codeblock(code: string, language: string): string {
+	return `\n\`\`\`${language}\n${code}\n\`\`\`\n`;
+}
+
+/**
+ * Evaluate the template, capturing the value of the variable at the hovered reference by
+ * wrapping it in a probe function. When hovering the binding itself, the first reference
+ * after it is probed instead.
+ */
+async function evaluateVariable(
+	text: string,
+	masked: string,
+	name: string,
+	offset: number,
+	evaluate: ProbeEvaluator
+): Promise<any[] | undefined> {
+	const referenceRegex = new RegExp(`\\$${name}(?![A-Za-z0-9_])(?!\\s*:=)`, 'g');
+	referenceRegex.lastIndex = offset;
+	const reference = referenceRegex.exec(masked);
+	if (!reference) {
+		return [];
+	}
+
+	const start = reference.index;
+	const end = start + reference[0].length;
+	const probed = `${text.substring(0, start)}$${PROBE_FUNCTION}(${text.substring(start, end)})${text.substring(end)}`;
+	return evaluate(probed, PROBE_FUNCTION);
+}
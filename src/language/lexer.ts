@@ -0,0 +1,271 @@
+/**
+ * Kinds of token produced by the JSONata lexer
+ */
+export type TokenType = 'name' | 'variable' | 'string' | 'number' | 'value' | 'regex' | 'operator' | 'comment';
+
+/**
+ * A token of a JSONata expression with its exact source range
+ */
+export interface Token {
+	type: TokenType;
+	/** The token as written, including quotes, backticks, `$` or comment delimiters */
+	raw: string;
+	/**
+	 * The meaning of the token: the unescaped string, the name without backticks,
+	 * the variable name without `$`, the operator, ...
+	 */
+	value: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * A lexical error, with the offset where it was detected
+ */
+export class LexerError extends Error {
+	constructor(message: string, public readonly position: number) {
+		super(message);
+		this.name = 'LexerError';
+	}
+}
+
+const WHITESPACE = ' \t\n\r\v';
+
+/** Characters that end a name, mirroring the operator table of the jsonata parser */
+const OPERATOR_CHARS = '.[]{}(),@#;:?+-*/%|=<>^&!~';
+
+const DOUBLE_CHAR_OPERATORS = ['..', ':=', '!=', '>=', '<=', '**', '~>'];
+
+const WORD_OPERATORS = ['and', 'or', 'in'];
+
+const ESCAPES: Record<string, string> = {
+	'"': '"',
+	'\\': '\\',
+	'/': '/',
+	'b': '\b',
+	'f': '\f',
+	'n': '\n',
+	'r': '\r',
+	't': '\t'
+};
+
+/**
+ * Split a JSONata expression into tokens, following the rules of the jsonata tokenizer.
+ * Comments are kept as tokens so that tools re-printing the source can preserve them.
+ *
+ * A `/` starts a regular expression wherever an operand is expected, as in jsonata itself.
+ */
+export function tokenize(source: string): Token[] {
+	return [...scanTokens(source)];
+}
+
+/**
+ * Scan the tokens of `source` lazily, from `start` as if an expression began there.
+ * With `recover`, unterminated strings, quoted names, comments and regular expressions run to the
+ * end of the source and illegal escapes are kept as written, rather than throwing a LexerError.
+ * With `lineComments`, `//` starts a comment token that runs to the end of the line, whether it starts
+ * the line or follows an expression. jsonata has no such comments, but `.jsonata` files use them around
+ * expressions, where `//` cannot be part of a valid one.
+ */
+export function* scanTokens(source: string, start = 0, recover = false, lineComments = false): Generator<Token> {
+	let position = start;
+	let previous: Token | undefined;
+
+	const push = (type: TokenType, start: number, end: number, value: string): Token => {
+		const token: Token = { type, raw: source.substring(start, end), value, start, end };
+		if (type !== 'comment') {
+			previous = token;
+		}
+		return token;
+	};
+
+	while (position < source.length) {
+		const char = source[position];
+		const start = position;
+
+		if (WHITESPACE.includes(char)) {
+			position++;
+			continue;
+		}
+
+		if (char === '/' && source[position + 1] === '*') {
+			const end = source.indexOf('*/', position + 2);
+			if (end < 0 && !recover) {
+				throw new LexerError('Comment has no closing tag', start);
+			}
+			position = end < 0 ? source.length : end + 2;
+			yield push('comment', start, position, source.substring(start + 2, end < 0 ? source.length : end));
+			continue;
+		}
+
+		if (lineComments && char === '/' && source[position + 1] === '/') {
+			const end = source.indexOf('\n', position + 2);
+			position = end < 0 ? source.length : end;
+			yield push('comment', start, position, source.substring(start + 2, position).replace(/\r$/, ''));
+			continue;
+		}
+
+		if (char === '/' && expectsOperand(previous)) {
+			position = scanRegex(source, position + 1, recover);
+			yield push('regex', start, position, source.substring(start, position));
+			continue;
+		}
+
+		const double = source.substring(position, position + 2);
+		if (DOUBLE_CHAR_OPERATORS.includes(double)) {
+			position += 2;
+			yield push('operator', start, position, double);
+			continue;
+		}
+
+		if (OPERATOR_CHARS.includes(char)) {
+			position++;
+			yield push('operator', start, position, char);
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			const scanned = scanString(source, position, recover);
+			position = scanned.end;
+			yield push('string', start, position, scanned.value);
+			continue;
+		}
+
+		const number = /^(0|[1-9][0-9]*)(\.[0-9]+)?([Ee][-+]?[0-9]+)?/.exec(source.substring(position));
+		if (number) {
+			position += number[0].length;
+			yield push('number', start, position, number[0]);
+			continue;
+		}
+
+		if (char === '`') {
+			const end = source.indexOf('`', position + 1);
+			if (end < 0 && !recover) {
+				throw new LexerError('Quoted name has no closing backtick', start);
+			}
+			position = end < 0 ? source.length : end + 1;
+			yield push('name', start, position, source.substring(start + 1, end < 0 ? source.length : end));
+			continue;
+		}
+
+		// Names and variables run until whitespace or an operator character
+		let end = position;
+		while (end < source.length && !WHITESPACE.includes(source[end]) && !OPERATOR_CHARS.includes(source[end])) {
+			end++;
+		}
+		position = end;
+		const word = source.substring(start, end);
+
+		if (word.startsWith('$')) {
+			yield push('variable', start, end, word.substring(1));
+		} else if (WORD_OPERATORS.includes(word)) {
+			yield push('operator', start, end, word);
+		} else if (word === 'true' || word === 'false' || word === 'null') {
+			yield push('value', start, end, word);
+		} else {
+			yield push('name', start, end, word);
+		}
+	}
+}
+
+/**
+ * Whether the next token starts an operand, i.e. a `/` there begins a regular expression
+ */
+function expectsOperand(previous: Token | undefined): boolean {
+	if (!previous) {
+		return true;
+	}
+	if (previous.type !== 'operator') {
+		return false;
+	}
+	return previous.value !== ')' && previous.value !== ']' && previous.value !== '}';
+}
+
+/**
+ * Scan to the end of a regular expression (after its flags), starting after the opening `/`
+ */
+function scanRegex(source: string, position: number, recover: boolean): number {
+	const start = position;
+	let depth = 0;
+
+	while (position < source.length) {
+		const char = source[position];
+		const escaped = source[position - 1] === '\\';
+
+		if (char === '/' && depth === 0 && !isEscaped(source, position)) {
+			position++;
+			while (source[position] === 'i' || source[position] === 'm') {
+				position++;
+			}
+			return position;
+		}
+		if ((char === '(' || char === '[' || char === '{') && !escaped) {
+			depth++;
+		}
+		if ((char === ')' || char === ']' || char === '}') && !escaped) {
+			depth--;
+		}
+		position++;
+	}
+
+	if (recover) {
+		// jsonata counts brackets, so `/[(]/` never ends; end it at the first slash instead
+		for (let slash = source.indexOf('/', start); slash !== -1; slash = source.indexOf('/', slash + 1)) {
+			if (!isEscaped(source, slash)) {
+				return slash + 1 + /^[im]*/.exec(source.substring(slash + 1, slash + 3))![0].length;
+			}
+		}
+		return position;
+	}
+	throw new LexerError('Regular expression has no closing slash', position);
+}
+
+function isEscaped(source: string, position: number): boolean {
+	let backslashes = 0;
+	while (source[position - backslashes - 1] === '\\') {
+		backslashes++;
+	}
+	return backslashes % 2 === 1;
+}
+
+/**
+ * Scan a string literal starting at its opening quote, returning its unescaped value
+ */
+function scanString(source: string, start: number, recover: boolean): { value: string; end: number } {
+	const quote = source[start];
+	let position = start + 1;
+	let value = '';
+
+	while (position < source.length) {
+		const char = source[position];
+
+		if (char === '\\') {
+			const escape = source[position + 1];
+			if (escape in ESCAPES) {
+				value += ESCAPES[escape];
+				position += 2;
+			} else if (escape === 'u' && /^[0-9a-fA-F]{4}$/.test(source.substring(position + 2, position + 6))) {
+				value += String.fromCharCode(parseInt(source.substring(position + 2, position + 6), 16));
+				position += 6;
+			} else if (recover) {
+				value += escape ?? '';
+				position += 2;
+			} else {
+				throw new LexerError('Illegal escape sequence in string', position + 1);
+			}
+			continue;
+		}
+
+		if (char === quote) {
+			return { value, end: position + 1 };
+		}
+
+		value += char;
+		position++;
+	}
+
+	if (recover) {
+		return { value, end: source.length };
+	}
+	throw new LexerError('String literal has no closing quote', position);
+}
@@ -0,0 +1,71 @@
+/**
+ * Documentation for a JSONata operator
+ */
+export interface OperatorInfo {
+	operator: string;
+	title: string;
+	description: string;
+	example: string;
+}
+
+/**
+ * JSONata operators, longest first so that `**` is matched before `*`
+ */
+export const OPERATORS: OperatorInfo[] = [
+	{ operator: '~>', title: 'Chain', description: 'Passes the value on the left as the first argument of the function on the right, so calls can be chained.', example: 'Account.Order.Product.Price ~> $sum()' },
+	{ operator: ':=', title: 'Variable binding', description: 'Binds the value of the expression on the right to the variable on the left, within the enclosing block.', example: '$total := $sum(Price)' },
+	{ operator: '**', title: 'Descendants', description: 'Selects the values of all descendant fields, at any depth.', example: 'Account.**.Price' },
+	{ operator: '..', title: 'Range', description: 'Inside an array constructor, creates a sequence of consecutive integers.', example: '[1..5]' },
+	{ operator: '!=', title: 'Not equals', description: 'Returns true if the operands are not equal.', example: 'status != "shipped"' },
+	{ operator: '<=', title: 'Less than or equal', description: 'Returns true if the left operand is less than or equal to the right one (numbers or strings).', example: 'Price <= 100' },
+	{ operator: '>=', title: 'Greater than or equal', description: 'Returns true if the left operand is greater than or equal to the right one (numbers or strings).', example: 'Price >= 100' },
+	{ operator: '$$', title: 'Root context', description: 'Refers to the root of the input document, wherever it is used.', example: '$$.Account.Name' },
+	{ operator: '.', title: 'Map', description: 'Evaluates the expression on the right for each value selected on the left, flattening the results.', example: 'Account.Order.Product' },
+	{ operator: '@', title: 'Focus variable binding', description: 'Binds the current context item to a variable and keeps the previous context, enabling joins across the input.', example: 'Account.Order@$o.Product' },
+	{ operator: '#', title: 'Positional variable binding', description: 'Binds the (zero-based) position of the current item in its sequence to a variable.', example: 'Account.Order#$i.{"index": $i}' },
+	{ operator: '^', title: 'Order-by', description: 'Sorts the selected values by one or more expressions; prefix a term with `>` for descending order.', example: 'Account.Order.Product^(>Price)' },
+	{ operator: '*', title: 'Wildcard / multiply', description: 'In a path, selects the values of all fields of an object. Between numbers, multiplies them.', example: 'Address.*' },
+	{ operator: '%', title: 'Parent / modulo', description: 'In a path, selects the parent of the current context value. Between numbers, returns the remainder.', example: 'Account.Order.Product.{"order": %.OrderID}' },
+	{ operator: '&', title: 'Concatenation', description: 'Concatenates the string representations of both operands.', example: 'FirstName & " " & Surname' },
+	{ operator: '?', title: 'Conditional', description: 'Evaluates the `then` expression if the condition is truthy, otherwise the optional `else` expression after `:`.', example: 'Price > 100 ? "expensive" : "cheap"' },
+	{ operator: '=', title: 'Equals', description: 'Returns true if the operands are equal (deep equality for objects and arrays).', example: 'status = "shipped"' },
+	{ operator: '<', title: 'Less than', description: 'Returns true if the left operand is less than the right one (numbers or strings).', example: 'Price < 100' },
+	{ operator: '>', title: 'Greater than', description: 'Returns true if the left operand is greater than the right one (numbers or strings).', example: 'Price > 100' },
+	{ operator: '+', title: 'Addition', description: 'Adds two numbers.', example: 'Price + Tax' },
+	{ operator: '-', title: 'Subtraction / negation', description: 'Subtracts the right number from the left, or negates a single number.', example: 'Price - Discount' },
+	{ operator: '/', title: 'Division', description: 'Divides the left number by the right one.', example: 'Total / Quantity' },
+	{ operator: '|', title: 'Transform', description: 'Delimits a transform `| location | update [, delete] |`, which returns a modified copy of its input.', example: '$ ~> |Account.Order.Product|{"Price": Price * 1.2}|' },
+	{ operator: '$', title: 'Context', description: 'Refers to the current context value. At the start of an expression, this is the input document.', example: '$.Account' },
+	{ operator: 'and', title: 'Boolean AND', description: 'Returns true if both operands are truthy.', example: 'Price > 10 and Quantity > 1' },
+	{ operator: 'or', title: 'Boolean OR', description: 'Returns true if either operand is truthy.', example: 'status = "new" or status = "open"' },
+	{ operator: 'in', title: 'Inclusion', description: 'Returns true if the value on the left is in the array on the right.', example: '"red" in colours' }
+];
+
+/**
+ * Find the operator at an offset in an expression, with the offset where it starts
+ */
+export function findOperatorAt(text: string, offset: number): { info: OperatorInfo; start: number } | undefined {
+	for (const info of OPERATORS) {
+		const length = info.operator.length;
+		for (let start = offset - length + 1; start <= offset; start++) {
+			if (start < 0 || text.substring(start, start + length) !== info.operator) {
+				continue;
+			}
+
+			// Word operators must stand on their own
+			if (/^[a-z]+$/.test(info.operator) &&
+				(/[A-Za-z0-9_$]/.test(text.charAt(start - 1)) || /[A-Za-z0-9_]/.test(text.charAt(start + length)))) {
+				continue;
+			}
+
+			// `$` only denotes the context when it is not the start of a variable name
+			if (info.operator === '$' && /[A-Za-z0-9_]/.test(text.charAt(start + 1))) {
+				continue;
+			}
+
+			return { info, start };
+		}
+	}
+
+	return undefined;
+}
@@ -0,0 +1,491 @@
+import { Token, tokenize } from './lexer';
+
+interface BaseNode {
+	/** Offset of the first character of the node */
+	start: number;
+	/** Offset just past the last character of the node */
+	end: number;
+}
+
+/**
+ * A field name, `$variable` or literal, with its source text
+ */
+export interface LiteralNode extends BaseNode {
+	type: 'name' | 'variable' | 'string' | 'number' | 'value' | 'regex';
+	/** The token as written, e.g. with quotes or backticks */
+	raw: string;
+	/** The meaning of the token, e.g. the unescaped string or the variable name without `$` */
+	value: string;
+}
+
+/**
+ * `*`, `**`, `%` and the `?` placeholder of partial function application
+ */
+export interface SymbolNode extends BaseNode {
+	type: 'wildcard' | 'descendant' | 'parent' | 'placeholder';
+}
+
+/**
+ * Any infix operator, including path steps `.`, bindings `:=`, chains `~>`,
+ * ranges `..` and the `@` / `#` focus and index bindings
+ */
+export interface BinaryNode extends BaseNode {
+	type: 'binary';
+	operator: string;
+	lhs: ExpressionNode;
+	rhs: ExpressionNode;
+}
+
+export interface NegationNode extends BaseNode {
+	type: 'negation';
+	operand: ExpressionNode;
+}
+
+export interface ArrayNode extends BaseNode {
+	type: 'array';
+	items: ExpressionNode[];
+}
+
+export interface ObjectPair {
+	key: ExpressionNode;
+	value: ExpressionNode;
+}
+
+/**
+ * An object constructor `{...}`, or a grouping `lhs{...}` when it has a left-hand side
+ */
+export interface ObjectNode extends BaseNode {
+	type: 'object';
+	lhs?: ExpressionNode;
+	pairs: ObjectPair[];
+}
+
+/**
+ * A parenthesised block `( expr; expr )`
+ */
+export interface BlockNode extends BaseNode {
+	type: 'block';
+	expressions: ExpressionNode[];
+}
+
+/**
+ * A predicate `lhs[predicate]`, or `lhs[]` without one
+ */
+export interface FilterNode extends BaseNode {
+	type: 'filter';
+	lhs: ExpressionNode;
+	predicate?: ExpressionNode;
+}
+
+export interface CallNode extends BaseNode {
+	type: 'call';
+	callee: ExpressionNode;
+	args: ExpressionNode[];
+}
+
+export interface LambdaNode extends BaseNode {
+	type: 'lambda';
+	/** `function` or `λ` */
+	keyword: string;
+	parameters: LiteralNode[];
+	/** The `<...>` signature as written */
+	signature?: string;
+	/** Offset of the `{` the body is enclosed in */
+	bodyOpen: number;
+	body: ExpressionNode;
+}
+
+export interface ConditionNode extends BaseNode {
+	type: 'condition';
+	condition: ExpressionNode;
+	then: ExpressionNode;
+	otherwise?: ExpressionNode;
+}
+
+export interface SortTerm {
+	/** `<` for ascending, `>` for descending, when written */
+	direction?: string;
+	expression: ExpressionNode;
+}
+
+export interface SortNode extends BaseNode {
+	type: 'sort';
+	lhs: ExpressionNode;
+	terms: SortTerm[];
+}
+
+/**
+ * A transform `| pattern | update, remove |`
+ */
+export interface TransformNode extends BaseNode {
+	type: 'transform';
+	pattern: ExpressionNode;
+	update: ExpressionNode;
+	remove?: ExpressionNode;
+}
+
+export type ExpressionNode =
+	| LiteralNode
+	| SymbolNode
+	| BinaryNode
+	| NegationNode
+	| ArrayNode
+	| ObjectNode
+	| BlockNode
+	| FilterNode
+	| CallNode
+	| LambdaNode
+	| ConditionNode
+	| SortNode
+	| TransformNode;
+
+/**
+ * The syntax tree of an expression, with the comments found in it
+ */
+export interface ParsedExpression {
+	ast: ExpressionNode;
+	comments: Token[];
+}
+
+/**
+ * A syntax error, with the offset where it was detected
+ */
+export class ParseError extends Error {
+	constructor(message: string, public readonly position: number) {
+		super(message);
+		this.name = 'ParseError';
+	}
+}
+
+/**
+ * Left binding powers of the infix operators, as in the jsonata parser
+ */
+const BINDING_POWERS: Record<string, number> = {
+	'.': 75,
+	'[': 80,
+	'{': 70,
+	'(': 80,
+	'@': 80,
+	'#': 80,
+	'^': 40,
+	'?': 20,
+	'+': 50,
+	'-': 50,
+	'*': 60,
+	'/': 60,
+	'%': 60,
+	'&': 50,
+	'=': 40,
+	'!=': 40,
+	'<': 40,
+	'<=': 40,
+	'>': 40,
+	'>=': 40,
+	'~>': 40,
+	'in': 40,
+	'and': 30,
+	'or': 25,
+	'..': 20,
+	':=': 10
+};
+
+/**
+ * Parse a JSONata expression into a syntax tree that keeps the source offsets of every node,
+ * unlike the tree produced by jsonata itself, which is normalised for evaluation.
+ * Throws a `ParseError` or `LexerError` if the expression is not valid.
+ */
+export function parseExpression(source: string): ParsedExpression {
+	const tokens = tokenize(source);
+	const comments = tokens.filter(token => token.type === 'comment');
+	const parser = new Parser(source, tokens.filter(token => token.type !== 'comment'));
+	return { ast: parser.parse(), comments };
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(private source: string, private tokens: Token[]) {}
+
+	public parse(): ExpressionNode {
+		if (this.tokens.length === 0) {
+			throw new ParseError('Empty expression', 0);
+		}
+
+		const ast = this.expression(0);
+		const extra = this.peek();
+		if (extra) {
+			throw new ParseError(`Unexpected token '${extra.raw}'`, extra.start);
+		}
+		return ast;
+	}
+
+	private expression(rightBindingPower: number): ExpressionNode {
+		let left = this.prefix(this.advance());
+
+		let token = this.peek();
+		while (token && rightBindingPower < this.bindingPower(token)) {
+			this.advance();
+			left = this.infix(token, left);
+			token = this.peek();
+		}
+
+		return left;
+	}
+
+	private prefix(token: Token): ExpressionNode {
+		if (token.type !== 'operator') {
+			return { type: token.type as LiteralNode['type'], raw: token.raw, value: token.value, start: token.start, end: token.end };
+		}
+
+		switch (token.value) {
+			case 'and':
+			case 'or':
+			case 'in':
+				// Operator words are field names where an operand is expected
+				return { type: 'name', raw: token.raw, value: token.value, start: token.start, end: token.end };
+			case '*':
+				return { type: 'wildcard', start: token.start, end: token.end };
+			case '**':
+				return { type: 'descendant', start: token.start, end: token.end };
+			case '%':
+				return { type: 'parent', start: token.start, end: token.end };
+			case '?':
+				return { type: 'placeholder', start: token.start, end: token.end };
+			case '-': {
+				const operand = this.expression(70);
+				return { type: 'negation', operand, start: token.start, end: operand.end };
+			}
+			case '(': {
+				const expressions = this.sequence(';', ')');
+				return { type: 'block', expressions, start: token.start, end: this.expect(')').end };
+			}
+			case '[': {
+				const items = this.sequence(',', ']');
+				return { type: 'array', items, start: token.start, end: this.expect(']').end };
+			}
+			case '{': {
+				const pairs = this.objectPairs();
+				return { type: 'object', pairs, start: token.start, end: this.expect('}').end };
+			}
+			case '|': {
+				const pattern = this.expression(0);
+				this.expect('|');
+				const update = this.expression(0);
+				let remove: ExpressionNode | undefined;
+				if (this.isNext(',')) {
+					this.advance();
+					remove = this.expression(0);
+				}
+				return { type: 'transform', pattern, update, remove, start: token.start, end: this.expect('|').end };
+			}
+		}
+
+		throw new ParseError(`Unexpected token '${token.raw}'`, token.start);
+	}
+
+	private infix(token: Token, left: ExpressionNode): ExpressionNode {
+		const start = left.start;
+
+		switch (token.value) {
+			case '[': {
+				let predicate: ExpressionNode | undefined;
+				if (!this.isNext(']')) {
+					predicate = this.expression(0);
+				}
+				return { type: 'filter', lhs: left, predicate, start, end: this.expect(']').end };
+			}
+			case '{': {
+				const pairs = this.objectPairs();
+				return { type: 'object', lhs: left, pairs, start, end: this.expect('}').end };
+			}
+			case '(':
+				if (left.type === 'name' && (left.raw === 'function' || left.raw === 'λ')) {
+					return this.lambda(left);
+				}
+				return { type: 'call', callee: left, args: this.sequence(',', ')'), start, end: this.expect(')').end };
+			case '^': {
+				this.expect('(');
+				const terms: SortTerm[] = [];
+				do {
+					const direction = this.isNext('<') || this.isNext('>') ? this.advance().value : undefined;
+					terms.push({ direction, expression: this.expression(0) });
+				} while (this.isNext(',') && this.advance());
+				return { type: 'sort', lhs: left, terms, start, end: this.expect(')').end };
+			}
+			case '?': {
+				const then = this.expression(0);
+				let otherwise: ExpressionNode | undefined;
+				if (this.isNext(':')) {
+					this.advance();
+					otherwise = this.expression(0);
+				}
+				return { type: 'condition', condition: left, then, otherwise, start, end: (otherwise ?? then).end };
+			}
+			case ':=': {
+				if (left.type !== 'variable') {
+					throw new ParseError('The left side of := must be a variable name', left.start);
+				}
+				// Right associative
+				const rhs = this.expression(BINDING_POWERS[':='] - 1);
+				return { type: 'binary', operator: ':=', lhs: left, rhs, start, end: rhs.end };
+			}
+			case '@':
+			case '#': {
+				const rhs = this.expression(BINDING_POWERS[token.value]);
+				if (rhs.type !== 'variable') {
+					throw new ParseError(`Expected a variable after '${token.value}'`, rhs.start);
+				}
+				return { type: 'binary', operator: token.value, lhs: left, rhs, start, end: rhs.end };
+			}
+		}
+
+		const rhs = this.expression(BINDING_POWERS[token.value]);
+		return { type: 'binary', operator: token.value, lhs: left, rhs, start, end: rhs.end };
+	}
+
+	/**
+	 * Parse the rest of `function($a, $b)<signature> { body }` after the opening parenthesis
+	 */
+	private lambda(keyword: LiteralNode): LambdaNode {
+		const parameters: LiteralNode[] = [];
+		if (!this.isNext(')')) {
+			do {
+				const parameter = this.advance();
+				if (parameter.type !== 'variable') {
+					throw new ParseError('Parameters of a function definition must be variables', parameter.start);
+				}
+				parameters.push({ type: 'variable', raw: parameter.raw, value: parameter.value, start: parameter.start, end: parameter.end });
+			} while (this.isNext(',') && this.advance());
+		}
+		this.expect(')');
+
+		let signature: string | undefined;
+		if (this.isNext('<')) {
+			const open = this.advance();
+			let depth = 1;
+			let close = open;
+			while (depth > 0) {
+				close = this.advance();
+				if (close.value === '{') {
+					throw new ParseError('Unterminated function signature', open.start);
+				}
+				if (close.value === '<') {
+					depth++;
+				} else if (close.value === '>') {
+					depth--;
+				}
+			}
+			signature = this.source.substring(open.start, close.end);
+		}
+
+		const bodyOpen = this.expect('{').start;
+		const body = this.expression(0);
+		const end = this.expect('}').end;
+		return { type: 'lambda', keyword: keyword.raw, parameters, signature, bodyOpen, body, start: keyword.start, end };
+	}
+
+	/**
+	 * Parse `key: value` pairs separated by commas, up to the closing brace
+	 */
+	private objectPairs(): ObjectPair[] {
+		const pairs: ObjectPair[] = [];
+		if (this.isNext('}')) {
+			return pairs;
+		}
+
+		do {
+			const key = this.expression(0);
+			this.expect(':');
+			pairs.push({ key, value: this.expression(0) });
+		} while (this.isNext(',') && this.advance());
+
+		return pairs;
+	}
+
+	/**
+	 * Parse expressions separated by `separator` up to (not including) the closing bracket.
+	 * A trailing `;` is allowed in blocks, as jsonata allows it.
+	 */
+	private sequence(separator: string, close: string): ExpressionNode[] {
+		const expressions: ExpressionNode[] = [];
+
+		while (!this.isNext(close)) {
+			expressions.push(this.expression(0));
+			if (!this.isNext(separator)) {
+				break;
+			}
+			this.advance();
+			if (separator !== ';' && this.isNext(close)) {
+				throw new ParseError(`Unexpected token '${close}'`, this.peek()!.start);
+			}
+		}
+
+		return expressions;
+	}
+
+	private bindingPower(token: Token): number {
+		return token.type === 'operator' ? BINDING_POWERS[token.value] ?? 0 : 0;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private isNext(operator: string): boolean {
+		const token = this.peek();
+		return token !== undefined && token.type === 'operator' && token.value === operator;
+	}
+
+	private advance(): Token {
+		const token = this.tokens[this.index];
+		if (!token) {
+			throw new ParseError('Unexpected end of expression', this.source.length);
+		}
+		this.index++;
+		return token;
+	}
+
+	private expect(operator: string): Token {
+		const token = this.peek();
+		if (!token) {
+			throw new ParseError(`Expected '${operator}' before end of expression`, this.source.length);
+		}
+		if (token.type !== 'operator' || token.value !== operator) {
+			throw new ParseError(`Expected '${operator}', got '${token.raw}'`, token.start);
+		}
+		this.index++;
+		return token;
+	}
+}
+
+/**
+ * The child nodes of a node, in source order
+ */
+export function getChildren(node: ExpressionNode): ExpressionNode[] {
+	switch (node.type) {
+		case 'binary':
+			return [node.lhs, node.rhs];
+		case 'negation':
+			return [node.operand];
+		case 'array':
+			return node.items;
+		case 'object':
+			return [...(node.lhs ? [node.lhs] : []), ...node.pairs.flatMap(pair => [pair.key, pair.value])];
+		case 'block':
+			return node.expressions;
+		case 'filter':
+			return node.predicate ? [node.lhs, node.predicate] : [node.lhs];
+		case 'call':
+			return [node.callee, ...node.args];
+		case 'lambda':
+			return [...node.parameters, node.body];
+		case 'condition':
+			return [node.condition, node.then, ...(node.otherwise ? [node.otherwise] : [])];
+		case 'sort':
+			return [node.lhs, ...node.terms.map(term => term.expression)];
+		case 'transform':
+			return [node.pattern, node.update, ...(node.remove ? [node.remove] : [])];
+		default:
+			return [];
+	}
+}
@@ -0,0 +1,237 @@
+import { maskCommentsAndStrings } from './documentBindings';
+import { PathResolver } from '../validation/pathAnalysis';
+
+/**
+ * The input path leading to a position in an expression
+ */
+export interface PathAtPosition {
+	/** Field names from the root of the input to the context the position is evaluated in */
+	steps: string[];
+	/** The partially typed field name at the position */
+	prefix: string;
+}
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_]/;
+const LAMBDA_HEAD = /(?:function|λ)\s*\([^)]*\)\s*(?:<[^{]*>)?\s*$/;
+
+/**
+ * Work out which input path a position in an expression refers to, e.g. for
+ * `departments.employees[salary > 1000].na|` this is `departments.employees` with prefix `na`.
+ *
+ * Works on the text before the position only, so it copes with incomplete expressions.
+ * Returns undefined when the context cannot be traced back to the input, e.g. inside a
+ * lambda body or after a variable other than `$` and `$$`.
+ */
+export function getPathAtOffset(text: string, offset: number): PathAtPosition | undefined {
+	const masked = maskCommentsAndStrings(text.substring(0, offset));
+
+	let prefixStart = masked.length;
+	while (prefixStart > 0 && IDENTIFIER_CHAR.test(masked[prefixStart - 1])) {
+		prefixStart--;
+	}
+	const prefix = masked.substring(prefixStart);
+
+	// Inside a quoted string or a number there is nothing to complete
+	if (/^[0-9]/.test(prefix) || isInsideString(masked)) {
+		return undefined;
+	}
+
+	let chainEnd = prefixStart;
+	let steps: string[] = [];
+	if (chainEnd > 0 && masked[chainEnd - 1] === '.' && masked[chainEnd - 2] !== '.') {
+		const chain = readChainBackwards(masked, chainEnd - 1);
+		if (!chain) {
+			return undefined;
+		}
+		steps = chain.steps;
+		chainEnd = chain.start;
+	}
+
+	const base = resolveChainBase(masked, chainEnd, steps);
+	return base ? { steps: base, prefix } : undefined;
+}
+
+/**
+ * Follow a path through a resolver and list the field names available at its end
+ */
+export function getKeysAtPath<T>(resolver: PathResolver<T>, steps: string[]): string[] {
+	let context = resolver.root();
+	for (const step of steps) {
+		if (context === null) {
+			return [];
+		}
+		const next = resolver.child(context, step);
+		if (next === undefined || next === null) {
+			return [];
+		}
+		context = next;
+	}
+	return context === null ? [] : resolver.keys(context);
+}
+
+/**
+ * Combines a chain of steps with the context it is evaluated in.
+ * A chain starting with `$$` is absolute, `$` refers to the current context, any other
+ * variable is unknown.
+ */
+function resolveChainBase(masked: string, chainStart: number, steps: string[]): string[] | undefined {
+	if (steps.length > 0 && steps[0].startsWith('$')) {
+		if (steps[0] === '$$') {
+			return steps.slice(1);
+		}
+		if (steps[0] !== '$') {
+			return undefined;
+		}
+		steps = steps.slice(1);
+	}
+
+	// A bare `$` before the position, e.g. `$|`, is a variable rather than a field
+	if (chainStart > 0 && masked[chainStart - 1] === '$') {
+		return undefined;
+	}
+
+	const enclosing = getEnclosingContext(masked, chainStart);
+	return enclosing ? [...enclosing, ...steps] : undefined;
+}
+
+/**
+ * Find the context a position is evaluated in from its unclosed brackets.
+ * Filters (`path[...]`) and object mappings (`path.{...}`, `path{...}`) move the context to
+ * the items of their path; parentheses, array and object constructors leave it unchanged.
+ */
+function getEnclosingContext(masked: string, position: number): string[] | undefined {
+	const opener = findUnclosedOpener(masked, position);
+	if (opener < 0) {
+		return [];
+	}
+
+	const bracket = masked[opener];
+	let before = opener;
+	while (before > 0 && /\s/.test(masked[before - 1])) {
+		before--;
+	}
+
+	if (bracket === '{' && LAMBDA_HEAD.test(masked.substring(0, opener))) {
+		return undefined;
+	}
+
+	if (bracket === '[' || bracket === '{') {
+		let chainEnd = before;
+		if (bracket === '{' && masked[chainEnd - 1] === '.') {
+			chainEnd--;
+		}
+		const previous = masked[chainEnd - 1];
+		if (previous !== undefined && (IDENTIFIER_CHAR.test(previous) || previous === '`' || previous === ']')) {
+			const chain = readChainBackwards(masked, chainEnd);
+			if (chain) {
+				return resolveChainBase(masked, chain.start, chain.steps);
+			}
+			return undefined;
+		}
+	}
+
+	return getEnclosingContext(masked, opener);
+}
+
+/**
+ * Find the innermost bracket opened before a position and not closed before it
+ */
+function findUnclosedOpener(masked: string, position: number): number {
+	const closers: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+	let depth = 0;
+
+	for (let i = position - 1; i >= 0; i--) {
+		const char = masked[i];
+		if (char in closers) {
+			depth++;
+		} else if (char === '(' || char === '[' || char === '{') {
+			if (depth === 0) {
+				return i;
+			}
+			depth--;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * Read a dotted chain of names ending just before `end`, skipping filters such as `[0]`.
+ * Returns undefined when one of the steps is not a plain name or variable.
+ */
+function readChainBackwards(masked: string, end: number): { steps: string[]; start: number } | undefined {
+	const steps: string[] = [];
+	let position = end;
+
+	while (true) {
+		// Skip predicates and filters attached to the step
+		while (masked[position - 1] === ']') {
+			const opener = findMatchingOpener(masked, position - 1, '[', ']');
+			if (opener < 0) {
+				return undefined;
+			}
+			position = opener;
+		}
+
+		let stepStart = position;
+		if (masked[position - 1] === '`') {
+			stepStart = masked.lastIndexOf('`', position - 2);
+			if (stepStart < 0) {
+				return undefined;
+			}
+			steps.unshift(masked.substring(stepStart + 1, position - 1));
+		} else {
+			while (stepStart > 0 && IDENTIFIER_CHAR.test(masked[stepStart - 1])) {
+				stepStart--;
+			}
+			if (masked[stepStart - 1] === '$') {
+				stepStart--;
+				// `$$` refers to the root of the input
+				if (stepStart === position - 1 && masked[stepStart - 1] === '$') {
+					stepStart--;
+				}
+			}
+			const name = masked.substring(stepStart, position);
+			if (name.length === 0 || /^[0-9]/.test(name)) {
+				return undefined;
+			}
+			steps.unshift(name);
+		}
+
+		position = stepStart;
+		if (masked[position - 1] === '.' && masked[position - 2] !== '.') {
+			position--;
+			continue;
+		}
+
+		return { steps, start: position };
+	}
+}
+
+function findMatchingOpener(masked: string, closerIndex: number, opener: string, closer: string): number {
+	let depth = 0;
+	for (let i = closerIndex; i >= 0; i--) {
+		if (masked[i] === closer) {
+			depth++;
+		} else if (masked[i] === opener) {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+	return -1;
+}
+
+/**
+ * Whether the end of the masked text is inside an unterminated string literal
+ */
+function isInsideString(masked: string): boolean {
+	const lastQuote = Math.max(masked.lastIndexOf('"'), masked.lastIndexOf("'"));
+	if (lastQuote < 0) {
+		return false;
+	}
+	const quote = masked[lastQuote];
+	const count = masked.split(quote).length - 1;
+	return count % 2 === 1;
+}
@@ -0,0 +1,404 @@
+import { Token } from './lexer';
+import { ExpressionNode, ObjectNode, parseExpression } from './parser';
+
+/**
+ * Layout options for re-printing expressions
+ */
+export interface PrintOptions {
+	/** One level of indentation, e.g. a tab or four spaces */
+	indent: string;
+	/** Preferred maximum line length; constructs that do not fit are broken over lines */
+	lineWidth: number;
+	/** `a + b` rather than `a+b` for arithmetic, comparison and concatenation operators */
+	spaceAroundOperators: boolean;
+	/** `( a; b )` and `{ "a": 1 }` rather than `(a; b)` and `{"a": 1}` on one line */
+	spaceInsideBlocks: boolean;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+	indent: '  ',
+	lineWidth: 80,
+	spaceAroundOperators: true,
+	spaceInsideBlocks: true
+};
+
+/** Operators that are spaced whatever `spaceAroundOperators` says */
+const ALWAYS_SPACED = [':=', '~>', 'and', 'or', 'in'];
+
+/** Operators that are never spaced */
+const NEVER_SPACED = ['.', '..', '@', '#'];
+
+/**
+ * Re-print a JSONata expression with consistent layout, keeping its comments.
+ * `column` is where the expression starts on its first line, and `baseIndent`
+ * is prefixed to every following line. Throws if the expression does not parse.
+ */
+export function printExpression(source: string, options: PrintOptions, column = 0, baseIndent = ''): string {
+	const { ast, comments } = parseExpression(source);
+	return new Printer(source, comments, options, column, baseIndent).print(ast);
+}
+
+class Printer {
+	private output = '';
+	private nextComment = 0;
+	private flat = false;
+
+	constructor(
+		private source: string,
+		private comments: Token[],
+		private options: PrintOptions,
+		private initialColumn: number,
+		private baseIndent: string
+	) {}
+
+	public print(ast: ExpressionNode): string {
+		this.printNode(ast, 0);
+
+		// Comments after the expression stay on their own line if they were
+		while (this.nextComment < this.comments.length) {
+			const comment = this.comments[this.nextComment++];
+			const gap = this.source.substring(ast.end, comment.start);
+			this.output += gap.includes('\n') ? this.newline(0) : ' ';
+			this.output += comment.raw;
+		}
+
+		return this.output;
+	}
+
+	/**
+	 * Print a node on one line if it fits, otherwise broken over lines
+	 */
+	private printNode(node: ExpressionNode, level: number): void {
+		this.flushComments(node.start);
+
+		if (this.flat || !this.isBreakable(node)) {
+			this.printLayout(node, level);
+			return;
+		}
+
+		if (!this.mustBreak(node) && this.tryFlat(() => this.printLayout(node, level))) {
+			return;
+		}
+		this.printLayout(node, level);
+	}
+
+	/**
+	 * Print on one line, rolling back if the result contains a line break or overflows
+	 */
+	private tryFlat(print: () => void): boolean {
+		const output = this.output;
+		const nextComment = this.nextComment;
+
+		this.flat = true;
+		print();
+		this.flat = false;
+
+		const printed = this.output.substring(output.length);
+		if (!printed.includes('\n') && this.column() <= this.options.lineWidth) {
+			return true;
+		}
+
+		this.output = output;
+		this.nextComment = nextComment;
+		return false;
+	}
+
+	private printLayout(node: ExpressionNode, level: number): void {
+		switch (node.type) {
+			case 'name':
+			case 'variable':
+			case 'string':
+			case 'number':
+			case 'value':
+			case 'regex':
+				this.output += node.raw;
+				return;
+			case 'wildcard':
+				this.output += '*';
+				return;
+			case 'descendant':
+				this.output += '**';
+				return;
+			case 'parent':
+				this.output += '%';
+				return;
+			case 'placeholder':
+				this.output += '?';
+				return;
+			case 'negation':
+				this.output += '-';
+				this.printNode(node.operand, level);
+				return;
+			case 'binary':
+				this.printNode(node.lhs, level);
+				this.output += this.formatOperator(node.operator);
+				this.printNode(node.rhs, level);
+				return;
+			case 'filter':
+				this.printNode(node.lhs, level);
+				this.output += '[';
+				if (node.predicate) {
+					this.printNode(node.predicate, level);
+				}
+				this.flushComments(node.end - 1, true);
+				this.output += ']';
+				return;
+			case 'sort':
+				this.printNode(node.lhs, level);
+				this.output += '^(';
+				node.terms.forEach((term, index) => {
+					this.output += (index > 0 ? ', ' : '') + (term.direction ?? '');
+					this.printNode(term.expression, level);
+				});
+				this.flushComments(node.end - 1, true);
+				this.output += ')';
+				return;
+			case 'call':
+				this.printNode(node.callee, level);
+				this.printArguments(node.args, node.end, level);
+				return;
+			case 'array':
+				this.printList('[', node.items, ',', ']', node.end, level, false);
+				return;
+			case 'block':
+				this.printList('(', node.expressions, ';', ')', node.end, level, this.options.spaceInsideBlocks);
+				return;
+			case 'object':
+				this.printObject(node, level);
+				return;
+			case 'lambda':
+				this.output += `${node.keyword}(`;
+				node.parameters.forEach((parameter, index) => {
+					this.output += index > 0 ? ', ' : '';
+					this.flushComments(parameter.start);
+					this.output += parameter.raw;
+				});
+				this.output += ')';
+				if (node.signature) {
+					this.output += node.signature;
+				}
+				// Comments between the parameters and the body stay in front of the body
+				this.flushComments(node.bodyOpen, true);
+				this.output += ' ';
+				this.printList('{', [node.body], '', '}', node.end, level, true);
+				return;
+			case 'condition':
+				this.printNode(node.condition, level);
+				if (this.flat) {
+					this.output += ' ? ';
+					this.printNode(node.then, level);
+					if (node.otherwise) {
+						this.output += ' : ';
+						this.printNode(node.otherwise, level);
+					}
+					return;
+				}
+				this.output += this.newline(level + 1) + '? ';
+				this.printNode(node.then, level + 1);
+				if (node.otherwise) {
+					this.output += this.newline(level + 1) + ': ';
+					this.printNode(node.otherwise, level + 1);
+				}
+				return;
+			case 'transform':
+				this.output += '| ';
+				this.printNode(node.pattern, level);
+				this.output += ' | ';
+				this.printNode(node.update, level);
+				if (node.remove) {
+					this.output += ', ';
+					this.printNode(node.remove, level);
+				}
+				this.flushComments(node.end - 1, true);
+				this.output += ' |';
+				return;
+		}
+	}
+
+	private printObject(node: ObjectNode, level: number): void {
+		if (node.lhs) {
+			this.printNode(node.lhs, level);
+		}
+
+		const items = node.pairs.map(pair => pair.key);
+		this.printList('{', items, ',', '}', node.end, level, this.options.spaceInsideBlocks, undefined, index => {
+			this.output += ': ';
+			this.printNode(node.pairs[index].value, level + 1);
+		});
+	}
+
+	/**
+	 * Arguments stay on the call's line when only the last one, typically a function or an
+	 * object constructor, needs to be broken over lines
+	 */
+	private printArguments(args: ExpressionNode[], end: number, level: number): void {
+		const last = args[args.length - 1];
+		const hugLast = !this.flat && last && ['lambda', 'object', 'array', 'block'].includes(last.type);
+
+		if (hugLast && !this.hasComments(args[0].start, last.start)) {
+			const output = this.output;
+			const nextComment = this.nextComment;
+
+			const fitsBefore = this.tryFlat(() => {
+				this.output += '(';
+				args.slice(0, -1).forEach(arg => {
+					this.printNode(arg, level);
+					this.output += ', ';
+				});
+			});
+
+			if (fitsBefore) {
+				this.printNode(last, level);
+				if (!this.hasComments(last.end, end)) {
+					this.output += ')';
+					return;
+				}
+			}
+
+			this.output = output;
+			this.nextComment = nextComment;
+		}
+
+		this.printList('(', args, ',', ')', end, level, false);
+	}
+
+	/**
+	 * Print bracketed, separated items, on one line when in flat mode and otherwise one per line
+	 */
+	private printList(
+		open: string,
+		items: ExpressionNode[],
+		separator: string,
+		close: string,
+		end: number,
+		level: number,
+		padded: boolean,
+		prefix?: (index: number) => string,
+		suffix?: (index: number) => void
+	): void {
+		this.output += open;
+
+		if (this.flat || items.length === 0) {
+			if (padded && items.length > 0) {
+				this.output += ' ';
+			}
+			items.forEach((item, index) => {
+				if (index > 0) {
+					this.output += `${separator} `;
+				}
+				this.output += prefix?.(index) ?? '';
+				this.printNode(item, level);
+				suffix?.(index);
+			});
+			this.flushComments(end - 1, true);
+			if (padded && items.length > 0) {
+				this.output += ' ';
+			}
+			this.output += close;
+			return;
+		}
+
+		items.forEach((item, index) => {
+			this.output += this.newline(level + 1);
+			this.flushCommentsOnOwnLines(item.start, level + 1);
+			this.output += prefix?.(index) ?? '';
+			this.printNode(item, level + 1);
+			suffix?.(index);
+			if (index < items.length - 1) {
+				this.output += separator;
+			}
+			this.flushTrailingComments(item.end, items[index + 1]?.start ?? end - 1);
+		});
+
+		if (this.nextCommentBefore(end - 1)) {
+			this.output += this.newline(level + 1);
+			this.flushCommentsOnOwnLines(end - 1, level + 1, false);
+		}
+		this.output += this.newline(level) + close;
+	}
+
+	/**
+	 * Whether a node is printed differently when broken over lines. For the others,
+	 * such as operators and paths, their operands decide for themselves.
+	 */
+	private isBreakable(node: ExpressionNode): boolean {
+		return ['array', 'object', 'block', 'call', 'lambda', 'condition'].includes(node.type);
+	}
+
+	/**
+	 * Comments in a node that spans several lines keep it broken, so they stay on their own lines
+	 */
+	private mustBreak(node: ExpressionNode): boolean {
+		return this.hasComments(node.start, node.end) && this.source.substring(node.start, node.end).includes('\n');
+	}
+
+	private hasComments(start: number, end: number): boolean {
+		return this.comments.some(comment => comment.start >= start && comment.end <= end);
+	}
+
+	private nextCommentBefore(position: number): boolean {
+		const comment = this.comments[this.nextComment];
+		return comment !== undefined && comment.start < position;
+	}
+
+	/**
+	 * Print the comments not printed yet that come before a position, on the current line
+	 */
+	private flushComments(position: number, beforeClose = false): void {
+		while (this.nextCommentBefore(position)) {
+			const comment = this.comments[this.nextComment++];
+			this.output += beforeClose ? ` ${comment.raw}` : `${comment.raw} `;
+		}
+	}
+
+	/**
+	 * Print comments that follow an item on the same source line after it, rather than before the next item
+	 */
+	private flushTrailingComments(itemEnd: number, nextStart: number): void {
+		while (this.nextCommentBefore(nextStart)) {
+			const comment = this.comments[this.nextComment];
+			if (this.source.substring(itemEnd, comment.start).includes('\n')) {
+				return;
+			}
+			this.output += ` ${comment.raw}`;
+			this.nextComment++;
+		}
+	}
+
+	/**
+	 * Print the comments not printed yet that come before a position, each on its own line
+	 */
+	private flushCommentsOnOwnLines(position: number, level: number, trailingNewline = true): void {
+		let first = true;
+		while (this.nextCommentBefore(position)) {
+			const comment = this.comments[this.nextComment++];
+			if (!first) {
+				this.output += this.newline(level);
+			}
+			this.output += comment.raw;
+			first = false;
+		}
+		if (!first && trailingNewline) {
+			this.output += this.newline(level);
+		}
+	}
+
+	private formatOperator(operator: string): string {
+		if (NEVER_SPACED.includes(operator)) {
+			return operator;
+		}
+		if (this.options.spaceAroundOperators || ALWAYS_SPACED.includes(operator)) {
+			return ` ${operator} `;
+		}
+		return operator;
+	}
+
+	private newline(level: number): string {
+		return '\n' + this.baseIndent + this.options.indent.repeat(level);
+	}
+
+	private column(): number {
+		const lineStart = this.output.lastIndexOf('\n');
+		return lineStart < 0 ? this.initialColumn + this.output.length : this.output.length - lineStart - 1;
+	}
+}
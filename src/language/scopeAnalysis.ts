@@ -0,0 +1,194 @@
+import { ExpressionNode, getChildren } from './parser';
+
+/**
+ * A frame in which variables are bound: the whole expression, a block `(...)`, a lambda,
+ * or the tuple stream of a path using `@$var` / `#$var`
+ */
+export interface Scope {
+	kind: 'root' | 'block' | 'lambda' | 'path';
+	start: number;
+	end: number;
+	parent?: Scope;
+	bindings: VariableBinding[];
+}
+
+/**
+ * Where a variable is bound, in offsets relative to the expression
+ */
+export interface VariableBinding {
+	/** Name without the leading `$` */
+	name: string;
+	/** Range of the `$name` token */
+	start: number;
+	end: number;
+	kind: 'assignment' | 'parameter' | 'focus' | 'index';
+	scope: Scope;
+	/** References from this offset on see the binding, e.g. after the whole `$x := ...` */
+	visibleFrom: number;
+}
+
+/**
+ * A use of a `$variable`, with the binding it refers to if it is bound in the expression
+ */
+export interface VariableReference {
+	name: string;
+	start: number;
+	end: number;
+	binding?: VariableBinding;
+}
+
+export interface ScopeAnalysis {
+	scopes: Scope[];
+	bindings: VariableBinding[];
+	references: VariableReference[];
+}
+
+/**
+ * Work out which binding each `$variable` reference of an expression refers to, following
+ * JSONata's scoping: blocks and lambdas open new frames, `:=` binds in the innermost block
+ * or lambda, and `@$var` / `#$var` bind for the rest of their path.
+ *
+ * A reference sees the closest binding of its name that precedes it in its own or an enclosing
+ * frame. Inside a lambda, bindings of enclosing frames that come later also count, as the
+ * lambda may be called after them; this is what makes recursive functions work.
+ * `$` and `$$` are not variables and are left out.
+ */
+export function analyzeScopes(ast: ExpressionNode): ScopeAnalysis {
+	const root: Scope = { kind: 'root', start: ast.start, end: ast.end, bindings: [] };
+	const analysis: ScopeAnalysis = { scopes: [root], bindings: [], references: [] };
+	const pending: Array<{ reference: VariableReference; scope: Scope }> = [];
+
+	const openScope = (kind: Scope['kind'], node: ExpressionNode, parent: Scope): Scope => {
+		const scope: Scope = { kind, start: node.start, end: node.end, parent, bindings: [] };
+		analysis.scopes.push(scope);
+		return scope;
+	};
+
+	const bind = (node: ExpressionNode, kind: VariableBinding['kind'], scope: Scope, visibleFrom: number) => {
+		if (node.type !== 'variable') {
+			return;
+		}
+		const binding: VariableBinding = { name: node.value, start: node.start, end: node.end, kind, scope, visibleFrom };
+		scope.bindings.push(binding);
+		analysis.bindings.push(binding);
+	};
+
+	const visit = (node: ExpressionNode, scope: Scope): void => {
+		switch (node.type) {
+			case 'variable':
+				if (node.value !== '' && node.value !== '$') {
+					const reference: VariableReference = { name: node.value, start: node.start, end: node.end };
+					analysis.references.push(reference);
+					pending.push({ reference, scope });
+				}
+				return;
+			case 'block': {
+				const block = openScope('block', node, scope);
+				node.expressions.forEach(expression => visit(expression, block));
+				return;
+			}
+			case 'lambda': {
+				const lambda = openScope('lambda', node, scope);
+				node.parameters.forEach(parameter => bind(parameter, 'parameter', lambda, node.start));
+				visit(node.body, lambda);
+				return;
+			}
+			case 'binary':
+				if (node.operator === ':=') {
+					// Bound in the enclosing block or lambda, once the value has been evaluated
+					let frame = scope;
+					while (frame.kind === 'path' && frame.parent) {
+						frame = frame.parent;
+					}
+					visit(node.rhs, scope);
+					bind(node.lhs, 'assignment', frame, node.end);
+					return;
+				}
+				if (node.operator === '.' || node.operator === '@' || node.operator === '#') {
+					const path = scope.kind === 'path' ? scope : openScope('path', node, scope);
+					visit(node.lhs, path);
+					if (node.operator === '.') {
+						visit(node.rhs, path);
+					} else {
+						bind(node.rhs, node.operator === '@' ? 'focus' : 'index', path, node.rhs.end);
+					}
+					return;
+				}
+				break;
+		}
+
+		getChildren(node).forEach(child => visit(child, scope));
+	};
+
+	visit(ast, root);
+
+	for (const { reference, scope } of pending) {
+		reference.binding = resolveReference(reference, scope);
+	}
+
+	return analysis;
+}
+
+function resolveReference(reference: VariableReference, scope: Scope): VariableBinding | undefined {
+	let insideLambda = false;
+
+	for (let frame: Scope | undefined = scope; frame; frame = frame.parent) {
+		const candidates = frame.bindings.filter(binding => binding.name === reference.name);
+		const visible = candidates.filter(binding => binding.visibleFrom <= reference.start);
+		if (visible.length > 0) {
+			return visible[visible.length - 1];
+		}
+		if (insideLambda && candidates.length > 0) {
+			return candidates[0];
+		}
+		if (frame.kind === 'lambda') {
+			insideLambda = true;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * The binding at an offset, either because the offset is on the binding itself or on a
+ * reference to it. `name` is set even when a reference is not bound in the expression.
+ */
+export function findVariableAt(
+	analysis: ScopeAnalysis,
+	offset: number
+): { name: string; binding?: VariableBinding; reference?: VariableReference } | undefined {
+	const binding = analysis.bindings.find(candidate => offset >= candidate.start && offset <= candidate.end);
+	if (binding) {
+		return { name: binding.name, binding };
+	}
+
+	const reference = analysis.references.find(candidate => offset >= candidate.start && offset <= candidate.end);
+	if (reference) {
+		return { name: reference.name, binding: reference.binding, reference };
+	}
+
+	return undefined;
+}
+
+/**
+ * The bindings a reference at an offset would resolve to, one for each name that is in scope there
+ */
+export function findBindingsInScope(analysis: ScopeAnalysis, offset: number): VariableBinding[] {
+	// Scopes are listed outside in, so on a tie the later one is the inner one
+	const scope = analysis.scopes
+		.filter(candidate => offset >= candidate.start && offset <= candidate.end)
+		.reduce((innermost, candidate) => candidate.end - candidate.start <= innermost.end - innermost.start ? candidate : innermost, analysis.scopes[0]);
+
+	const names = new Set(analysis.bindings.map(binding => binding.name));
+	return [...names]
+		.map(name => resolveReference({ name, start: offset, end: offset }, scope))
+		.filter((binding): binding is VariableBinding => binding !== undefined)
+		.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The references that resolve to a binding
+ */
+export function findReferences(analysis: ScopeAnalysis, binding: VariableBinding): VariableReference[] {
+	return analysis.references.filter(reference => reference.binding === binding);
+}
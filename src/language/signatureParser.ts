@@ -0,0 +1,166 @@
+/**
+ * A parameter described by a JSONata function signature
+ */
+export interface SignatureParameter {
+	/** The type as written in the signature, e.g. `n`, `a<s>` or `(sf)` */
+	type: string;
+	optional: boolean;
+	/** `+`: accepts one or more arguments */
+	variadic: boolean;
+	/** `-`: the context value is used when the argument is missing */
+	contextDefault: boolean;
+}
+
+/**
+ * A parsed JSONata function signature such as `<s-nn?:s>`
+ */
+export interface ParsedSignature {
+	parameters: SignatureParameter[];
+	/** The return type, if the signature declares one */
+	returns?: string;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+	b: 'boolean',
+	n: 'number',
+	s: 'string',
+	l: 'null',
+	a: 'array',
+	o: 'object',
+	f: 'function',
+	j: 'json',
+	x: 'any',
+	u: 'boolean|number|string|null'
+};
+
+/**
+ * Parse a JSONata signature string. Returns undefined if it is not well formed.
+ */
+export function parseSignature(signature: string): ParsedSignature | undefined {
+	const trimmed = signature.trim();
+	if (!trimmed.startsWith('<') || !trimmed.endsWith('>')) {
+		return undefined;
+	}
+
+	const body = trimmed.substring(1, trimmed.length - 1);
+	const parameters: SignatureParameter[] = [];
+	let returns: string | undefined;
+	let i = 0;
+
+	while (i < body.length) {
+		const char = body[i];
+
+		if (char === ':') {
+			returns = body.substring(i + 1);
+			break;
+		}
+
+		const end = readTypeEnd(body, i);
+		if (end === undefined) {
+			return undefined;
+		}
+
+		const parameter: SignatureParameter = {
+			type: body.substring(i, end),
+			optional: false,
+			variadic: false,
+			contextDefault: false
+		};
+		i = end;
+
+		while (i < body.length && '?+-'.includes(body[i])) {
+			if (body[i] === '?') {
+				parameter.optional = true;
+			} else if (body[i] === '+') {
+				parameter.variadic = true;
+			} else {
+				parameter.contextDefault = true;
+			}
+			i++;
+		}
+
+		parameters.push(parameter);
+	}
+
+	return { parameters, returns };
+}
+
+/**
+ * Describe a signature type in words, e.g. `a<n>` as `array<number>` and `(sf)` as `string|function`
+ */
+export function describeSignatureType(type: string): string {
+	if (type.startsWith('(') && type.endsWith(')')) {
+		const options: string[] = [];
+		let i = 1;
+		while (i < type.length - 1) {
+			const end = readTypeEnd(type, i) ?? type.length - 1;
+			options.push(describeSignatureType(type.substring(i, end)));
+			i = end;
+		}
+		return options.join('|');
+	}
+
+	const base = TYPE_NAMES[type[0]] ?? type[0];
+	if (type.length > 1 && type[1] === '<') {
+		const inner = type.substring(2, type.length - 1);
+		if (type[0] === 'f') {
+			return `function<${inner}>`;
+		}
+		return `${base}<${describeSignatureType(inner)}>`;
+	}
+	return base;
+}
+
+/**
+ * Minimum and maximum number of arguments a signature accepts (`Infinity` for variadic).
+ * Parameters that default to the context are counted as optional.
+ */
+export function getSignatureArity(signature: ParsedSignature): { min: number; max: number } {
+	let min = 0;
+	let max = 0;
+
+	for (const parameter of signature.parameters) {
+		max = parameter.variadic ? Infinity : max + 1;
+		if (!parameter.optional && !parameter.contextDefault) {
+			min++;
+		}
+	}
+
+	return { min, max };
+}
+
+/**
+ * Find where the type starting at `start` ends, including any `<...>` parameterisation
+ */
+function readTypeEnd(body: string, start: number): number | undefined {
+	let i = start;
+
+	if (body[i] === '(') {
+		const close = body.indexOf(')', i);
+		if (close < 0) {
+			return undefined;
+		}
+		i = close + 1;
+	} else if (/[bnslaofjxu]/.test(body[i])) {
+		i++;
+	} else {
+		return undefined;
+	}
+
+	if (body[i] === '<') {
+		let depth = 0;
+		for (; i < body.length; i++) {
+			if (body[i] === '<') {
+				depth++;
+			} else if (body[i] === '>') {
+				depth--;
+				if (depth === 0) {
+					return i + 1;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	return i;
+}
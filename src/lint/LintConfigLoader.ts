@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LINT_SEVERITIES, LintRulesConfig } from './LintRule';
+
+export const LINT_CONFIG_FILE_NAME = '.jsonatalintrc';
+
+/**
+ * Finds and reads `.jsonatalintrc` files: JSON of the form `{ "rules": { "<rule id>": <setting> } }`.
+ *
+ * The nearest file wins, looking in the directory of the document and then its parents,
+ * up to and including `rootDirectory` when one is given.
+ */
+export class LintConfigLoader {
+    private cache = new Map<string, { mtime: number; rules: LintRulesConfig }>();
+    private reported = new Set<string>();
+
+    /**
+     * @param report Told about each invalid rule setting once
+     */
+    constructor(private report: (message: string) => void = message => console.warn(message)) {}
+
+    /**
+     * Leaves out the rule settings whose severity is not one of `off`, `hint`, `info`, `warning`
+     * and `error`, so those rules run at their default severity, and reports them naming `source`
+     */
+    public checkRules(rules: unknown, source: string): LintRulesConfig {
+        if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+            this.reportOnce(`${source} should map lint rule ids to severities`);
+            return {};
+        }
+
+        const checked: LintRulesConfig = {};
+        for (const [ruleId, setting] of Object.entries(rules)) {
+            const [severity, options] = Array.isArray(setting) ? setting : [setting];
+            if (!LINT_SEVERITIES.includes(severity)) {
+                this.reportOnce(`${source}: invalid severity ${JSON.stringify(severity)} for lint rule "${ruleId}", expected ${LINT_SEVERITIES.join(', ')}. The rule runs at its default severity.`);
+            } else if (options !== undefined && (typeof options !== 'object' || options === null || Array.isArray(options))) {
+                this.reportOnce(`${source}: the options of lint rule "${ruleId}" should be an object. The rule runs at its default severity.`);
+            } else {
+                checked[ruleId] = setting;
+            }
+        }
+        return checked;
+    }
+
+    public load(documentPath: string, rootDirectory?: string): LintRulesConfig {
+        const fsPath = this.findConfigFile(path.dirname(documentPath), rootDirectory);
+        return fsPath ? this.readConfigFile(fsPath) : {};
+    }
+
+    public findConfigFile(directory: string, rootDirectory?: string): string | undefined {
+        const root = rootDirectory ? path.resolve(rootDirectory) : undefined;
+        let current = path.resolve(directory);
+
+        while (true) {
+            const candidate = path.join(current, LINT_CONFIG_FILE_NAME);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+
+            const parent = path.dirname(current);
+            if (current === root || parent === current) {
+                return undefined;
+            }
+            current = parent;
+        }
+    }
+
+    /**
+     * Reads the rules of a config file, reusing them until the file changes
+     */
+    private readConfigFile(fsPath: string): LintRulesConfig {
+        try {
+            const mtime = fs.statSync(fsPath).mtimeMs;
+            const cached = this.cache.get(fsPath);
+            if (cached && cached.mtime === mtime) {
+                return cached.rules;
+            }
+
+            const content = JSON.parse(fs.readFileSync(fsPath, 'utf8'));
+            const rules = content && content.rules !== undefined ? this.checkRules(content.rules, `"rules" in ${fsPath}`) : {};
+            this.cache.set(fsPath, { mtime, rules });
+            return rules;
+        } catch (error) {
+            console.warn(`Failed to load lint configuration ${fsPath}:`, error);
+            this.cache.delete(fsPath);
+            return {};
+        }
+    }
+
+    private reportOnce(message: string): void {
+        if (!this.reported.has(message)) {
+            this.reported.add(message);
+            this.report(message);
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { ExpressionNode } from '../language/parser';
+import { ScopeAnalysis } from '../language/scopeAnalysis';
+
+export type LintSeverity = 'off' | 'hint' | 'info' | 'warning' | 'error';
+
+export const LINT_SEVERITIES: readonly LintSeverity[] = ['off', 'hint', 'info', 'warning', 'error'];
+
+/**
+ * How a rule is configured: a severity, or a severity with rule options,
+ * e.g. `"warning"` or `["warning", { "max": 2 }]`
+ */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, unknown>?];
+
+/**
+ * Rule settings by rule id
+ */
+export type LintRulesConfig = Record<string, LintRuleSetting>;
+
+/**
+ * What a rule gets to inspect: one parsed expression
+ */
+export interface LintContext {
+	source: string;
+	ast: ExpressionNode;
+	scopes: ScopeAnalysis;
+	/** Options given to the rule in its setting, empty when there are none */
+	options: Record<string, unknown>;
+}
+
+/**
+ * A problem found by a rule, in offsets relative to the expression
+ */
+export interface LintProblem {
+	start: number;
+	end: number;
+	message: string;
+	/** The flagged code has no effect and can be shown faded out */
+	unnecessary?: boolean;
+}
+
+export interface LintRule {
+	/** Used in settings, `.jsonatalintrc` and `jsonata-disable` comments */
+	id: string;
+	description: string;
+	defaultSeverity: LintSeverity;
+	check(context: LintContext): LintProblem[];
+}
@@ -0,0 +1,102 @@
+import { ExpressionNode } from '../language/parser';
+import { analyzeScopes } from '../language/scopeAnalysis';
+import { LintProblem, LintRule, LintRulesConfig, LintSeverity } from './LintRule';
+import { BUILTIN_LINT_RULES } from './rules';
+
+/**
+ * A problem found by a rule that is switched on, with the severity it is configured at
+ */
+export interface LintResult extends LintProblem {
+    ruleId: string;
+    severity: Exclude<LintSeverity, 'off'>;
+}
+
+/**
+ * A `jsonata-disable`, `jsonata-enable` or `jsonata-disable-line` comment
+ */
+export interface DisableDirective {
+    kind: 'disable' | 'enable' | 'disable-line';
+    /** Zero-based line of the comment */
+    line: number;
+    /** Rule ids the comment applies to; empty for all rules */
+    rules: string[];
+}
+
+/**
+ * Runs lint rules over parsed expressions. Rules are switched on at their default severity
+ * unless the configuration says otherwise.
+ */
+export class Linter {
+    constructor(private rules: LintRule[] = BUILTIN_LINT_RULES) {}
+
+    public getRules(): readonly LintRule[] {
+        return this.rules;
+    }
+
+    public lint(source: string, ast: ExpressionNode, config: LintRulesConfig = {}): LintResult[] {
+        const results: LintResult[] = [];
+        const scopes = analyzeScopes(ast);
+
+        for (const rule of this.rules) {
+            const setting = config[rule.id] ?? rule.defaultSeverity;
+            const [severity, options] = Array.isArray(setting) ? setting : [setting];
+            if (severity === 'off') {
+                continue;
+            }
+
+            try {
+                for (const problem of rule.check({ source, ast, scopes, options: options ?? {} })) {
+                    results.push({ ...problem, ruleId: rule.id, severity });
+                }
+            } catch (error) {
+                // A broken rule should not take the other rules or the validator down with it
+                console.warn(`Lint rule ${rule.id} failed:`, error);
+            }
+        }
+
+        return results;
+    }
+}
+
+/**
+ * Find the `/* jsonata-disable [rule, ...] *\/` style comments of a document, in document order
+ */
+export function findDisableDirectives(text: string): DisableDirective[] {
+    const directives: DisableDirective[] = [];
+    const commentRegex = /\/\*\s*jsonata-(disable-line|disable|enable)\b([^*]*)\*\//g;
+    let match;
+
+    while ((match = commentRegex.exec(text)) !== null) {
+        directives.push({
+            kind: match[1] as DisableDirective['kind'],
+            line: text.substring(0, match.index).split('\n').length - 1,
+            rules: match[2].split(/[\s,]+/).filter(rule => rule.length > 0)
+        });
+    }
+
+    return directives;
+}
+
+/**
+ * Whether a rule is switched off on a line: by a `jsonata-disable` before it that is not
+ * undone by a later `jsonata-enable`, or by a `jsonata-disable-line` on the line itself
+ */
+export function isRuleDisabled(directives: DisableDirective[], ruleId: string, line: number): boolean {
+    let disabled = false;
+    let disabledOnLine = false;
+
+    for (const directive of directives) {
+        const applies = directive.rules.length === 0 || directive.rules.includes(ruleId);
+        if (!applies || directive.line > line) {
+            continue;
+        }
+
+        if (directive.kind === 'disable-line') {
+            disabledOnLine = disabledOnLine || directive.line === line;
+        } else {
+            disabled = directive.kind === 'disable';
+        }
+    }
+
+    return disabled || disabledOnLine;
+}
@@ -0,0 +1,165 @@
+import { getBuiltinFunction } from '../language/builtinFunctions';
+import { CallNode, ExpressionNode, getChildren } from '../language/parser';
+import { findReferences, ScopeAnalysis } from '../language/scopeAnalysis';
+import { LintProblem, LintRule } from './LintRule';
+
+const noUnusedVariables: LintRule = {
+	id: 'no-unused-variables',
+	description: 'Variables bound with := that are never read',
+	defaultSeverity: 'warning',
+	check: ({ scopes }) => scopes.bindings
+		.filter(binding => binding.kind === 'assignment' && findReferences(scopes, binding).length === 0)
+		.map(binding => ({
+			start: binding.start,
+			end: binding.end,
+			message: `'$${binding.name}' is assigned but never used`,
+			unnecessary: true
+		}))
+};
+
+const noShadowedBuiltins: LintRule = {
+	id: 'no-shadowed-builtins',
+	description: 'Variables and parameters named after a built-in function',
+	defaultSeverity: 'warning',
+	check: ({ scopes }) => scopes.bindings
+		.filter(binding => getBuiltinFunction(binding.name))
+		.map(binding => ({
+			start: binding.start,
+			end: binding.end,
+			message: `'$${binding.name}' shadows the built-in function '$${binding.name}'`
+		}))
+};
+
+const noRedundantString: LintRule = {
+	id: 'no-redundant-string',
+	description: '$string() around a value that is already a string',
+	defaultSeverity: 'warning',
+	check: ({ ast, scopes }) => {
+		const problems: LintProblem[] = [];
+		const report = (call: CallNode) => problems.push({
+			start: call.start,
+			end: call.end,
+			message: '$string() is called on a value that is already a string'
+		});
+
+		visitCalls(ast, (call, chained) => {
+			if (!isBuiltinCall(call, 'string', scopes)) {
+				return;
+			}
+			if (chained && call.args.length === 0 && isString(chained, scopes)) {
+				report(call);
+			} else if (!chained && call.args.length === 1 && isString(call.args[0], scopes)) {
+				report(call);
+			}
+		});
+
+		return problems;
+	}
+};
+
+const maxNestedConditions: LintRule = {
+	id: 'max-nested-conditions',
+	description: 'Conditional expressions nested too deeply to follow',
+	defaultSeverity: 'warning',
+	check: ({ ast, options }) => {
+		const max = typeof options.max === 'number' ? options.max : 3;
+		const problems: LintProblem[] = [];
+
+		const visit = (node: ExpressionNode, depth: number) => {
+			if (node.type === 'condition') {
+				depth++;
+				if (depth > max) {
+					// Report the outermost offender only, not every condition inside it
+					problems.push({
+						start: node.start,
+						end: node.end,
+						message: `Conditions are nested ${depth} deep (maximum ${max}); consider a lookup object or a function`
+					});
+					return;
+				}
+			}
+			getChildren(node).forEach(child => visit(child, depth));
+		};
+		visit(ast, 0);
+
+		return problems;
+	}
+};
+
+const noEval: LintRule = {
+	id: 'no-eval',
+	description: 'Uses of $eval, which evaluates arbitrary expressions at runtime',
+	defaultSeverity: 'warning',
+	check: ({ ast, scopes }) => {
+		const problems: LintProblem[] = [];
+		visitCalls(ast, call => {
+			if (isBuiltinCall(call, 'eval', scopes)) {
+				problems.push({
+					start: call.callee.start,
+					end: call.callee.end,
+					message: '$eval runs an expression built at runtime, which cannot be validated and may be unsafe'
+				});
+			}
+		});
+		return problems;
+	}
+};
+
+/**
+ * The rules that ship with the extension
+ */
+export const BUILTIN_LINT_RULES: LintRule[] = [
+	noUnusedVariables,
+	noShadowedBuiltins,
+	noRedundantString,
+	maxNestedConditions,
+	noEval
+];
+
+/**
+ * Visit every call of an expression, with the value passed in by `~>` for chained calls
+ */
+function visitCalls(ast: ExpressionNode, callback: (call: CallNode, chained?: ExpressionNode) => void): void {
+	const visit = (node: ExpressionNode) => {
+		if (node.type === 'binary' && node.operator === '~>' && node.rhs.type === 'call') {
+			visit(node.lhs);
+			callback(node.rhs, node.lhs);
+			getChildren(node.rhs).forEach(visit);
+			return;
+		}
+		if (node.type === 'call') {
+			callback(node);
+		}
+		getChildren(node).forEach(visit);
+	};
+	visit(ast);
+}
+
+/**
+ * Whether a call is to the built-in function `name`, rather than to a variable bound in the expression
+ */
+function isBuiltinCall(call: CallNode, name: string, scopes: ScopeAnalysis): boolean {
+	if (call.callee.type !== 'variable' || call.callee.value !== name) {
+		return false;
+	}
+	const reference = scopes.references.find(candidate => candidate.start === call.callee.start);
+	return !reference?.binding;
+}
+
+/**
+ * Whether an expression always produces a string: a string literal, a `&` concatenation,
+ * or a call to a built-in function that returns a string
+ */
+function isString(node: ExpressionNode, scopes: ScopeAnalysis): boolean {
+	if (node.type === 'string') {
+		return true;
+	}
+	if (node.type === 'binary' && node.operator === '&') {
+		return true;
+	}
+	if (node.type === 'call' && node.callee.type === 'variable') {
+		const builtin = getBuiltinFunction(node.callee.value);
+		return builtin?.returns === 'string' && isBuiltinCall(node, builtin.name, scopes);
+	}
+	return false;
+}
@@ -0,0 +1,150 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+/**
+ * How long and with how much memory an evaluation may run
+ */
+export interface EvaluationBudget {
+    timeoutMs: number;
+    memoryLimitMb: number;
+}
+
+/**
+ * A runtime error thrown by jsonata, with the fields it sets
+ */
+export interface EvaluationError {
+    message: string;
+    code?: string;
+    position?: number;
+    token?: string;
+    value?: string;
+}
+
+/**
+ * What an expression is evaluated with besides its input, to match the runtime it is written for
+ */
+export interface EvaluationContext {
+    /** A JSON object of values bound to `$name` variables, as text */
+    bindings?: string;
+    /** Absolute path of a module exporting custom functions to register */
+    functionsModule?: string;
+    /** Name of a function to bind that records the values it is called with, returned as `probed` */
+    probe?: string;
+}
+
+export interface EvaluationRequest extends EvaluationContext {
+    id: number;
+    expression: string;
+    /** The JSON input as text, parsed in the worker rather than copied into it */
+    input: string;
+}
+
+/** `probed` is a JSON array of the values the probe function was called with, as text */
+export type EvaluationResponse =
+    | { id: number; result: string | undefined; probed?: string }
+    | { id: number; error: EvaluationError; probed?: string };
+
+export type EvaluationOutcome =
+    | { status: 'done'; result: string | undefined; probed?: string }
+    | { status: 'error'; error: EvaluationError; probed?: string }
+    | { status: 'timeout'; timeoutMs: number }
+    | { status: 'out-of-memory'; memoryLimitMb: number }
+    | { status: 'cancelled' };
+
+interface PendingEvaluation {
+    id: number;
+    timer: NodeJS.Timeout;
+    resolve(outcome: EvaluationOutcome): void;
+}
+
+/**
+ * Evaluates JSONata expressions in a worker thread, so that runaway recursion or a huge `$map`
+ * cannot freeze the extension host. One evaluation runs at a time: starting another cancels it.
+ * The worker is kept between evaluations and replaced when one has to be stopped.
+ */
+export class EvaluationRunner {
+    private worker?: Worker;
+    private workerMemoryLimit?: number;
+    private pending?: PendingEvaluation;
+    private nextId = 0;
+
+    constructor(private workerPath: string = path.join(__dirname, 'evaluationWorker.js')) {}
+
+    public evaluate(expression: string, input: string, budget: EvaluationBudget, context: EvaluationContext = {}): Promise<EvaluationOutcome> {
+        this.cancel();
+        const worker = this.getWorker(budget.memoryLimitMb);
+        const id = ++this.nextId;
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.settle({ status: 'timeout', timeoutMs: budget.timeoutMs }, true), budget.timeoutMs);
+            this.pending = { id, timer, resolve };
+            const request: EvaluationRequest = { ...context, id, expression, input };
+            worker.postMessage(request);
+        });
+    }
+
+    /**
+     * Stops the running evaluation, if any, which then resolves as cancelled
+     */
+    public cancel(): void {
+        this.settle({ status: 'cancelled' }, true);
+    }
+
+    public dispose(): void {
+        this.cancel();
+        this.stopWorker();
+    }
+
+    private settle(outcome: EvaluationOutcome, stopWorker: boolean): void {
+        const pending = this.pending;
+        if (!pending) {
+            return;
+        }
+
+        this.pending = undefined;
+        clearTimeout(pending.timer);
+        if (stopWorker) {
+            this.stopWorker();
+        }
+        pending.resolve(outcome);
+    }
+
+    private getWorker(memoryLimitMb: number): Worker {
+        if (this.worker && this.workerMemoryLimit === memoryLimitMb) {
+            return this.worker;
+        }
+
+        this.stopWorker();
+        const worker = new Worker(this.workerPath, { resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb } });
+        this.worker = worker;
+        this.workerMemoryLimit = memoryLimitMb;
+
+        worker.on('message', (response: EvaluationResponse) => {
+            if (this.worker === worker && this.pending?.id === response.id) {
+                this.settle('error' in response
+                    ? { status: 'error', error: response.error, probed: response.probed }
+                    : { status: 'done', result: response.result, probed: response.probed }, false);
+            }
+        });
+
+        // A worker that dies on its own cannot be reused
+        const onFailure = (outcome: EvaluationOutcome) => {
+            if (this.worker === worker) {
+                this.worker = undefined;
+                this.settle(outcome, false);
+            }
+        };
+        worker.on('error', (error: Error & { code?: string }) => onFailure(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+            ? { status: 'out-of-memory', memoryLimitMb }
+            : { status: 'error', error: { message: error.message } }));
+        worker.on('exit', () => onFailure({ status: 'error', error: { message: 'The evaluation worker stopped unexpectedly' } }));
+
+        return worker;
+    }
+
+    private stopWorker(): void {
+        const worker = this.worker;
+        this.worker = undefined;
+        void worker?.terminate();
+    }
+}
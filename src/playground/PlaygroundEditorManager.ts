@@ -6,9 +6,11 @@ import * as vscode from 'vscode';
 export class PlaygroundEditorManager {
     private jsonInputDocument: vscode.TextDocument | undefined;
     private jsonataExpressionDocument: vscode.TextDocument | undefined;
+    private bindingsDocument: vscode.TextDocument | undefined;
     private disposables: vscode.Disposable[] = [];
     private onJsonInputChangeCallback?: (content: string) => void;
     private onJsonataExpressionChangeCallback?: (content: string) => void;
+    private onBindingsChangeCallback?: (content: string) => void;
 
     constructor(private context: vscode.ExtensionContext) {
         this.setupDocumentChangeListeners();
@@ -25,6 +27,10 @@ export class PlaygroundEditorManager {
                 if (this.onJsonataExpressionChangeCallback) {
                     this.onJsonataExpressionChangeCallback(event.document.getText());
                 }
+            } else if (this.bindingsDocument && event.document === this.bindingsDocument) {
+                if (this.onBindingsChangeCallback) {
+                    this.onBindingsChangeCallback(event.document.getText());
+                }
             }
         });
 
@@ -65,6 +71,23 @@ export class PlaygroundEditorManager {
         return editor;
     }
 
+    /**
+     * Creates the bindings editor: a JSON object of the values the expression is evaluated with,
+     * as `expression.evaluate(input, bindings)`. It opens as a tab behind the JSON input.
+     */
+    public async createBindingsEditor(initialContent: string): Promise<vscode.TextEditor> {
+        this.bindingsDocument = await vscode.workspace.openTextDocument({
+            content: initialContent,
+            language: 'json'
+        });
+
+        return vscode.window.showTextDocument(this.bindingsDocument, {
+            viewColumn: vscode.ViewColumn.One,
+            preserveFocus: true,
+            preview: false
+        });
+    }
+
     public setOnJsonInputChange(callback: (content: string) => void): void {
         this.onJsonInputChangeCallback = callback;
     }
@@ -73,6 +96,10 @@ export class PlaygroundEditorManager {
         this.onJsonataExpressionChangeCallback = callback;
     }
 
+    public setOnBindingsChange(callback: (content: string) => void): void {
+        this.onBindingsChangeCallback = callback;
+    }
+
     public async updateJsonInputContent(content: string): Promise<void> {
         if (this.jsonInputDocument) {
             const editor = vscode.window.visibleTextEditors.find(e => e.document === this.jsonInputDocument);
@@ -103,6 +130,19 @@ export class PlaygroundEditorManager {
         }
     }
 
+    public async updateBindingsContent(content: string): Promise<void> {
+        if (this.bindingsDocument) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(
+                this.bindingsDocument.uri,
+                new vscode.Range(this.bindingsDocument.positionAt(0), this.bindingsDocument.positionAt(this.bindingsDocument.getText().length)),
+                content
+            );
+            // The bindings tab is usually hidden behind the JSON input, so edit the document rather than an editor
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
+
     public getJsonInputContent(): string {
         return this.jsonInputDocument?.getText() || '';
     }
@@ -111,6 +151,18 @@ export class PlaygroundEditorManager {
         return this.jsonataExpressionDocument?.getText() || '';
     }
 
+    public getBindingsContent(): string {
+        return this.bindingsDocument?.getText() || '';
+    }
+
+    /**
+     * Checks whether a document is the playground's own JSONata expression document
+     */
+    public isJsonataExpressionDocument(document: vscode.TextDocument): boolean {
+        return this.jsonataExpressionDocument !== undefined &&
+            document.uri.toString() === this.jsonataExpressionDocument.uri.toString();
+    }
+
     public dispose(): void {
         // Close the documents by closing their tabs
         const closePromises: Promise<any>[] = [];
@@ -135,6 +187,17 @@ export class PlaygroundEditorManager {
             }
         }
 
+        if (this.bindingsDocument) {
+            // Usually a background tab, which has no visible editor to close
+            const bindingsUri = this.bindingsDocument.uri.toString();
+            const tabs = vscode.window.tabGroups.all
+                .flatMap(group => group.tabs)
+                .filter(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === bindingsUri);
+            if (tabs.length > 0) {
+                closePromises.push(Promise.resolve(vscode.window.tabGroups.close(tabs, true)));
+            }
+        }
+
         // Wait for all close operations to complete
         Promise.all(closePromises).catch(error => {
             console.warn('Error closing playground editors:', error);
@@ -151,7 +214,9 @@ export class PlaygroundEditorManager {
         // Clear references
         this.jsonInputDocument = undefined;
         this.jsonataExpressionDocument = undefined;
+        this.bindingsDocument = undefined;
         this.onJsonInputChangeCallback = undefined;
         this.onJsonataExpressionChangeCallback = undefined;
+        this.onBindingsChangeCallback = undefined;
     }
 }
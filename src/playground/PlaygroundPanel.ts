@@ -13,6 +13,7 @@ export class PlaygroundPanel {
     private disposables: vscode.Disposable[] = [];
     private jsonInputEditor: vscode.TextEditor | undefined;
     private jsonataExpressionEditor: vscode.TextEditor | undefined;
+    private bindingsEditor: vscode.TextEditor | undefined;
 
     constructor(
         private context: vscode.ExtensionContext,
@@ -60,8 +61,9 @@ export class PlaygroundPanel {
         const defaultJsonataExpression = 'example[value > 5].value';
 
         try {
-            // Step 1: Create JSON input editor in Column 1 (left side)
+            // Step 1: Create JSON input editor in Column 1 (left side), with the bindings in a tab behind it
             this.jsonInputEditor = await this.editorManager.createJsonInputEditor(defaultJsonInput);
+            this.bindingsEditor = await this.editorManager.createBindingsEditor(this.webviewManager.currentState.bindings);
 
             // Step 2: Create JSONata expression editor in Column 2 (top right)
             this.jsonataExpressionEditor = await this.editorManager.createJsonataExpressionEditor(defaultJsonataExpression);
@@ -75,6 +77,10 @@ export class PlaygroundPanel {
                 this.webviewManager.updateJsonataExpression(content);
             });
 
+            this.editorManager.setOnBindingsChange((content) => {
+                this.webviewManager.updateBindings(content);
+            });
+
             // Step 4: Load the webview content for results (bottom right)
             this.webviewManager.updateWebviewContent();
 
@@ -186,6 +192,43 @@ export class PlaygroundPanel {
         }
     }
 
+    /**
+     * Sets the bindings the expression is evaluated with, a JSON object of variable values
+     */
+    public async setBindings(bindings: string): Promise<void> {
+        if (this.bindingsEditor) {
+            await this.editorManager.updateBindingsContent(bindings);
+        } else {
+            // Store for when editor is ready
+            this.webviewManager.setBindings(bindings);
+        }
+    }
+
+    /**
+     * Whether a document is the playground's template: its own editor or the selected template tab
+     */
+    public isTemplate(document: vscode.TextDocument): boolean {
+        return this.editorManager.isJsonataExpressionDocument(document) ||
+            this.webviewManager.currentState.selectedTemplateEditor === document.uri.toString();
+    }
+
+    /**
+     * Gets the parsed JSON input a template document is evaluated against, if the document
+     * is the playground's template
+     */
+    public getSampleInputForTemplate(document: vscode.TextDocument): any | undefined {
+        if (!this.isTemplate(document)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(this.webviewManager.currentState.jsonInput);
+        } catch {
+            // The input is being edited and is not valid JSON right now
+            return undefined;
+        }
+    }
+
     /**
      * Populates the playground with content from the currently active editor
      */
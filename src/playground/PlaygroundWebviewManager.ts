@@ -1,10 +1,14 @@
 import * as vscode from 'vscode';
 import jsonata from 'jsonata';
 import { ValidationService } from '../validation/ValidationService';
+import { EvaluationContext, EvaluationRunner } from './EvaluationRunner';
+import { getEvaluationBudget, getFunctionsModulePath } from './evaluationSettings';
 
 interface PlaygroundState {
     jsonInput: string;
     jsonataExpression: string;
+    /** A JSON object of the values bound to `$name` variables */
+    bindings: string;
     result: string;
     error: string | null;
     errorDetails: ErrorDetails | null;
@@ -21,7 +25,7 @@ interface ErrorDetails {
     value?: string;
     line?: number;
     character?: number;
-    type: 'compilation' | 'runtime' | 'json-parse';
+    type: 'compilation' | 'runtime' | 'json-parse' | 'timeout' | 'memory';
     suggestion?: string;
 }
 
@@ -44,6 +48,7 @@ export class PlaygroundWebviewManager {
     private state: PlaygroundState = {
         jsonInput: '{\n  "example": [\n    {"value": 4},\n    {"value": 7},\n    {"value": 13}\n  ]\n}',
         jsonataExpression: 'example[value > 5].value',
+        bindings: '{}',
         result: '',
         error: null,
         errorDetails: null,
@@ -53,6 +58,7 @@ export class PlaygroundWebviewManager {
     };
     private disposables: vscode.Disposable[] = [];
     private playgroundDiagnosticCollection: vscode.DiagnosticCollection;
+    private evaluationRunner = new EvaluationRunner();
 
     // Callbacks for share/import functionality
     private onShareCallback?: () => Promise<void>;
@@ -259,6 +265,21 @@ export class PlaygroundWebviewManager {
         this.evaluateExpression();
     }
 
+    /**
+     * Updates the bindings and triggers evaluation
+     */
+    public updateBindings(bindings: string): void {
+        this.state.bindings = bindings;
+        this.evaluateExpression();
+    }
+
+    /**
+     * Sets the bindings before the bindings editor exists
+     */
+    public setBindings(bindings: string): void {
+        this.updateBindings(bindings);
+    }
+
     /**
      * Sets the JSONata expression (legacy method for compatibility)
      */
@@ -307,6 +328,7 @@ export class PlaygroundWebviewManager {
         // Clean up any resources if needed
         this.disposables.forEach(disposable => disposable.dispose());
         this.playgroundDiagnosticCollection.dispose();
+        this.evaluationRunner.dispose();
     }
 
     /**
@@ -351,16 +373,18 @@ export class PlaygroundWebviewManager {
     }
 
     private async evaluateExpression(): Promise<void> {
+        // A result for the previous input must not replace this one
+        this.evaluationRunner.cancel();
+
         try {
             // Reset error state and clear diagnostics
             this.state.error = null;
             this.state.errorDetails = null;
             this.clearTemplateDiagnostics();
 
-            // Parse JSON input
-            let jsonData: any;
+            // Check the JSON input, which the evaluation worker parses again
             try {
-                jsonData = JSON.parse(this.state.jsonInput);
+                JSON.parse(this.state.jsonInput);
             } catch (error) {
                 const errorMessage = `Invalid JSON input: ${error instanceof Error ? error.message : 'Unknown error'}`;
                 this.state.error = errorMessage;
@@ -373,10 +397,21 @@ export class PlaygroundWebviewManager {
                 return;
             }
 
-            // Compile JSONata expression
-            let expression: any;
+            const bindingsError = this.checkBindings();
+            if (bindingsError) {
+                this.state.error = bindingsError;
+                this.state.errorDetails = {
+                    message: bindingsError,
+                    type: 'json-parse'
+                };
+                this.state.result = '';
+                this.sendStateToWebview();
+                return;
+            }
+
+            // Compile JSONata expression here, where syntax errors are cheap to report
             try {
-                expression = jsonata(this.state.jsonataExpression);
+                jsonata(this.state.jsonataExpression);
             } catch (error: any) {
                 // Enhanced error handling for compilation errors
                 const errorDetails = this.createDetailedErrorInfo(error, 'compilation');
@@ -391,19 +426,40 @@ export class PlaygroundWebviewManager {
                 return;
             }
 
-            // Evaluate expression
-            try {
-                const result = await expression.evaluate(jsonData);
-                this.state.result = JSON.stringify(result, null, 2);
-            } catch (error: any) {
+            // Evaluate expression in a worker, away from the extension host
+            const budget = getEvaluationBudget();
+            const outcome = await this.evaluationRunner.evaluate(this.state.jsonataExpression, this.state.jsonInput, budget, this.getEvaluationContext());
+            if (outcome.status === 'cancelled') {
+                // The input changed, the evaluation that replaced this one reports
+                return;
+            }
+
+            if (outcome.status === 'done') {
+                this.state.result = outcome.result as string;
+            } else if (outcome.status === 'error') {
                 // Enhanced error handling for runtime errors
-                const errorDetails = this.createDetailedErrorInfo(error, 'runtime');
+                const errorDetails = this.createDetailedErrorInfo(outcome.error, 'runtime');
                 this.state.error = this.formatErrorMessage(errorDetails);
                 this.state.errorDetails = errorDetails;
                 this.state.result = '';
 
                 // Create diagnostics for the template editor
                 this.createTemplateDiagnostics(errorDetails);
+            } else {
+                const errorDetails: ErrorDetails = outcome.status === 'timeout'
+                    ? {
+                        message: `Evaluation timed out after ${outcome.timeoutMs} ms`,
+                        type: 'timeout',
+                        suggestion: 'Look for recursion without a base case or a very large $map, or raise jsonataValidator.playground.evaluationTimeout.'
+                    }
+                    : {
+                        message: `Evaluation ran out of memory (limit ${outcome.memoryLimitMb} MB)`,
+                        type: 'memory',
+                        suggestion: 'Look for a result that keeps growing, or raise jsonataValidator.playground.evaluationMemoryLimit.'
+                    };
+                this.state.error = errorDetails.message;
+                this.state.errorDetails = errorDetails;
+                this.state.result = '';
             }
         } catch (error) {
             const errorMessage = `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -418,6 +474,35 @@ export class PlaygroundWebviewManager {
         this.sendStateToWebview();
     }
 
+    /**
+     * Gets the bindings and custom functions module the expression is evaluated with
+     */
+    private getEvaluationContext(): EvaluationContext {
+        return {
+            bindings: this.state.bindings.trim() ? this.state.bindings : undefined,
+            functionsModule: getFunctionsModulePath()
+        };
+    }
+
+    /**
+     * Checks that the bindings are a JSON object, returning an error message if not
+     */
+    private checkBindings(): string | null {
+        if (!this.state.bindings.trim()) {
+            return null;
+        }
+
+        try {
+            const bindings = JSON.parse(this.state.bindings);
+            if (bindings === null || typeof bindings !== 'object' || Array.isArray(bindings)) {
+                return 'Invalid bindings: expected a JSON object of variable names to values';
+            }
+            return null;
+        } catch (error) {
+            return `Invalid bindings: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+    }
+
     /**
      * Creates detailed error information from JSONata errors
      */
@@ -1821,6 +1906,8 @@ export class PlaygroundWebviewManager {
 
         // Debounced evaluation function to prevent excessive calls
         const debouncedEvaluate = () => {
+            // Stop evaluating input that has already changed
+            this.evaluationRunner.cancel();
             if (evaluationTimeout) {
                 clearTimeout(evaluationTimeout);
             }
@@ -1847,7 +1934,10 @@ export class PlaygroundWebviewManager {
         const saveDisposable = vscode.workspace.onDidSaveTextDocument((document) => {
             const documentUri = document.uri.toString();
 
-            if (this.state.selectedJsonInputEditor === documentUri) {
+            if (document.uri.scheme === 'file' && document.uri.fsPath === getFunctionsModulePath()) {
+                // The worker reloads a custom functions module that changed
+                this.evaluateExpression();
+            } else if (this.state.selectedJsonInputEditor === documentUri) {
                 this.state.jsonInput = document.getText();
                 this.evaluateExpression();
             } else if (this.state.selectedTemplateEditor === documentUri) {
@@ -1857,6 +1947,13 @@ export class PlaygroundWebviewManager {
         });
         this.disposables.push(saveDisposable);
 
+        const configurationDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('jsonataValidator.playground')) {
+                this.evaluateExpression();
+            }
+        });
+        this.disposables.push(configurationDisposable);
+
         // Listen for tab changes to update available editors
         const tabChangeDisposable = vscode.window.tabGroups.onDidChangeTabs(() => {
             // Update available editors when tabs change
@@ -0,0 +1,33 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EvaluationBudget } from './EvaluationRunner';
+
+/**
+ * Gets the time and memory an evaluation may use from the playground settings
+ */
+export function getEvaluationBudget(): EvaluationBudget {
+	const config = vscode.workspace.getConfiguration('jsonataValidator.playground');
+	return {
+		timeoutMs: config.get<number>('evaluationTimeout', 5000),
+		memoryLimitMb: config.get<number>('evaluationMemoryLimit', 512)
+	};
+}
+
+/**
+ * Gets the absolute path of the `playground.functionsModule` setting, relative paths being
+ * relative to the first workspace folder. The module is code that gets loaded, so there is
+ * none in a workspace that is not trusted.
+ */
+export function getFunctionsModulePath(): string | undefined {
+	if (!vscode.workspace.isTrusted) {
+		return undefined;
+	}
+
+	const setting = vscode.workspace.getConfiguration('jsonataValidator.playground').get<string>('functionsModule', '').trim();
+	if (!setting || path.isAbsolute(setting)) {
+		return setting || undefined;
+	}
+
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	return workspaceFolder ? path.resolve(workspaceFolder.uri.fsPath, setting) : undefined;
+}
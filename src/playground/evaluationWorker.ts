@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import jsonata from 'jsonata';
+import { parentPort } from 'worker_threads';
+import { EvaluationRequest, EvaluationResponse } from './EvaluationRunner';
+
+/**
+ * A function exported by the custom functions module, registered with `registerFunction`
+ */
+interface CustomFunction {
+	name: string;
+	implementation: (...args: any[]) => any;
+	signature?: string;
+}
+
+/** Loaded modules by path, reloaded when the file changes */
+const loadedModules = new Map<string, { modified: number; functions: CustomFunction[] }>();
+
+/**
+ * Entry point of the worker thread the playground evaluates expressions in, see `EvaluationRunner`
+ */
+parentPort?.on('message', async (request: EvaluationRequest) => {
+	let response: EvaluationResponse;
+	const probed: unknown[] = [];
+	try {
+		const expression = jsonata(request.expression);
+		if (request.functionsModule) {
+			for (const customFunction of loadCustomFunctions(request.functionsModule)) {
+				expression.registerFunction(customFunction.name, customFunction.implementation, customFunction.signature);
+			}
+		}
+
+		const bindings = request.bindings ? parseBindings(request.bindings) : {};
+		if (request.probe) {
+			bindings[request.probe] = (value: unknown) => {
+				probed.push(value);
+				return value;
+			};
+		}
+
+		const result = await expression.evaluate(JSON.parse(request.input), bindings);
+		response = { id: request.id, result: JSON.stringify(result, null, 2) };
+	} catch (error: any) {
+		response = {
+			id: request.id,
+			error: {
+				message: error?.message ?? String(error),
+				code: error?.code,
+				position: error?.position,
+				token: asText(error?.token),
+				value: asText(error?.value)
+			}
+		};
+	}
+	if (request.probe) {
+		// Values recorded before a runtime error are kept too
+		response.probed = JSON.stringify(probed);
+	}
+	parentPort!.postMessage(response);
+});
+
+/**
+ * Reads the functions a module exports, either as functions or as `{ implementation, signature }`
+ * objects, e.g. `module.exports = { toCurrency: { implementation: n => ..., signature: '<n:s>' } }`
+ */
+function loadCustomFunctions(modulePath: string): CustomFunction[] {
+	let modified: number;
+	try {
+		modified = fs.statSync(modulePath).mtimeMs;
+	} catch {
+		throw new Error(`Custom functions module ${modulePath} does not exist`);
+	}
+
+	const loaded = loadedModules.get(modulePath);
+	if (loaded && loaded.modified === modified) {
+		return loaded.functions;
+	}
+
+	let exported: any;
+	try {
+		delete require.cache[require.resolve(modulePath)];
+		exported = require(modulePath);
+	} catch (error: any) {
+		throw new Error(`Could not load custom functions from ${modulePath}: ${error?.message ?? error}`);
+	}
+
+	const functions: CustomFunction[] = [];
+	for (const [key, value] of Object.entries<any>(exported?.default ?? exported ?? {})) {
+		const name = key.startsWith('$') ? key.substring(1) : key;
+		if (typeof value === 'function') {
+			functions.push({ name, implementation: value });
+		} else if (typeof value?.implementation === 'function') {
+			functions.push({ name, implementation: value.implementation, signature: value.signature });
+		}
+	}
+
+	loadedModules.set(modulePath, { modified, functions });
+	return functions;
+}
+
+function parseBindings(text: string): Record<string, any> {
+	const parsed = JSON.parse(text);
+	if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('Bindings must be a JSON object of variable names to values');
+	}
+
+	// `{ "$rate": 1 }` and `{ "rate": 1 }` both bind `$rate`
+	return Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name.startsWith('$') ? name.substring(1) : name, value]));
+}
+
+/**
+ * Error fields can hold any value, but only text survives the trip to the extension host
+ */
+function asText(value: unknown): string | undefined {
+	return value === undefined || typeof value === 'object' || typeof value === 'function' ? undefined : String(value);
+}
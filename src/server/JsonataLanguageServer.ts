@@ -0,0 +1,293 @@
+import { fileURLToPath } from 'url';
+import * as path from 'path';
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Connection,
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticTag,
+    DidChangeConfigurationNotification,
+    FormattingOptions,
+    Hover,
+    InitializeParams,
+    InitializeResult,
+    InsertTextFormat,
+    MarkupKind,
+    Range,
+    TextDocuments,
+    TextDocumentSyncKind,
+    TextEdit
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CompletionCandidate, getCompletions } from '../language/completion';
+import { formatJsonata } from '../language/formatting';
+import { getHover } from '../language/hover';
+import { PrintOptions } from '../language/printer';
+import { LintConfigLoader } from '../lint/LintConfigLoader';
+import { createPathChecks, ExpressionValidator, ProblemSeverity, ValidationProblem } from '../validation/ExpressionValidator';
+import { AssociationDocument } from '../validation/associations';
+import { ServerFileAssociations } from './ServerFileAssociations';
+import { resolveServerSettings, ServerSettings } from './ServerSettings';
+
+const SEVERITIES: Record<ProblemSeverity, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint
+};
+
+const COMPLETION_KINDS: Record<CompletionCandidate['kind'], CompletionItemKind> = {
+    function: CompletionItemKind.Function,
+    variable: CompletionItemKind.Variable,
+    field: CompletionItemKind.Field
+};
+
+/**
+ * Serves JSONata validation, completion, hover and formatting over the Language Server Protocol,
+ * so that any LSP client gets the diagnostics and features the VS Code extension has.
+ *
+ * Settings are the extension's `jsonataValidator` section, pulled per document from clients that
+ * support `workspace/configuration`, and otherwise taken from the initialization options and
+ * `workspace/didChangeConfiguration` notifications.
+ */
+export class JsonataLanguageServer {
+    private static readonly VALIDATION_DELAY = 300;
+
+    private documents = new TextDocuments(TextDocument);
+    private validator = new ExpressionValidator();
+    private associations = new ServerFileAssociations();
+    private lintConfigLoader = new LintConfigLoader(message => void this.connection.window.showWarningMessage(message));
+    private workspaceFolders: string[] = [];
+    private pullsConfiguration = false;
+    private globalSettings: ServerSettings = resolveServerSettings(undefined);
+    private documentSettings = new Map<string, Promise<ServerSettings>>();
+    private pendingValidations = new Map<string, NodeJS.Timeout>();
+    private openedDocuments = new Set<string>();
+
+    constructor(private connection: Connection) {}
+
+    public listen(): void {
+        this.connection.onInitialize(params => this.initialize(params));
+        this.connection.onInitialized(() => {
+            if (this.pullsConfiguration) {
+                void this.connection.client.register(DidChangeConfigurationNotification.type, { section: 'jsonataValidator' });
+            }
+        });
+
+        this.connection.onDidChangeConfiguration(change => {
+            this.documentSettings.clear();
+            if (!this.pullsConfiguration) {
+                this.globalSettings = resolveServerSettings(change.settings?.jsonataValidator);
+            }
+            this.validateAll();
+        });
+
+        // Schemas, samples and `.jsonatalintrc` files live outside the documents
+        this.connection.onDidChangeWatchedFiles(() => this.validateAll());
+
+        // Opening a document also fires a content change. Documents are validated when they open
+        // whatever `validateOnType` says, as they are in the extension.
+        this.documents.onDidOpen(event => this.openedDocuments.add(event.document.uri));
+        this.documents.onDidChangeContent(change => {
+            if (this.openedDocuments.delete(change.document.uri)) {
+                this.scheduleValidation(change.document);
+                return;
+            }
+            void this.getSettings(change.document.uri).then(settings => {
+                if (settings.validateOnType) {
+                    this.scheduleValidation(change.document);
+                }
+            });
+        });
+        this.documents.onDidSave(event => {
+            void this.getSettings(event.document.uri).then(settings => {
+                if (settings.validateOnSave) {
+                    this.cancelValidation(event.document.uri);
+                    void this.validate(event.document);
+                }
+            });
+        });
+        this.documents.onDidClose(event => {
+            this.cancelValidation(event.document.uri);
+            this.documentSettings.delete(event.document.uri);
+            void this.connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+        });
+
+        this.connection.onCompletion(params => this.withDocument(params.textDocument.uri, document =>
+            this.provideCompletion(document, document.offsetAt(params.position))));
+        this.connection.onHover(params => this.withDocument(params.textDocument.uri, document =>
+            this.provideHover(document, document.offsetAt(params.position))));
+        this.connection.onDocumentFormatting(params => this.withDocument(params.textDocument.uri, document =>
+            this.provideFormatting(document, params.options)));
+        this.connection.onDocumentRangeFormatting(params => this.withDocument(params.textDocument.uri, document =>
+            this.provideFormatting(document, params.options, params.range)));
+
+        this.documents.listen(this.connection);
+        this.connection.listen();
+    }
+
+    private initialize(params: InitializeParams): InitializeResult {
+        this.pullsConfiguration = params.capabilities.workspace?.configuration === true;
+        this.globalSettings = resolveServerSettings(params.initializationOptions?.settings);
+
+        const folders = params.workspaceFolders?.map(folder => folder.uri) ?? (params.rootUri ? [params.rootUri] : []);
+        this.workspaceFolders = folders.map(uri => this.toFsPath(uri)).filter((folder): folder is string => folder !== undefined);
+
+        return {
+            capabilities: {
+                textDocumentSync: {
+                    openClose: true,
+                    change: TextDocumentSyncKind.Incremental,
+                    save: { includeText: false }
+                },
+                completionProvider: { triggerCharacters: ['$', '.', '[', '{'] },
+                hoverProvider: true,
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true
+            },
+            serverInfo: { name: 'jsonata-language-server' }
+        };
+    }
+
+    private async withDocument<T>(uri: string, handler: (document: TextDocument) => T | Promise<T>): Promise<T | null> {
+        const document = this.documents.get(uri);
+        return document ? handler(document) : null;
+    }
+
+    private getSettings(uri: string): Promise<ServerSettings> {
+        if (!this.pullsConfiguration) {
+            return Promise.resolve(this.globalSettings);
+        }
+
+        let settings = this.documentSettings.get(uri);
+        if (!settings) {
+            settings = this.connection.workspace.getConfiguration({ scopeUri: uri, section: 'jsonataValidator' })
+                .then(resolveServerSettings);
+            this.documentSettings.set(uri, settings);
+        }
+        return settings;
+    }
+
+    private toServerDocument(document: TextDocument): AssociationDocument {
+        const fsPath = this.toFsPath(document.uri);
+        // The innermost folder the document is in
+        const workspaceFolder = fsPath
+            ? this.workspaceFolders
+                .filter(folder => fsPath.startsWith(folder + path.sep))
+                .sort((a, b) => b.length - a.length)[0]
+            : undefined;
+        return { text: document.getText(), fsPath, workspaceFolder: workspaceFolder ?? this.workspaceFolders[0] };
+    }
+
+    private toFsPath(uri: string): string | undefined {
+        return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+    }
+
+    private validateAll(): void {
+        this.documents.all().forEach(document => this.scheduleValidation(document));
+    }
+
+    private scheduleValidation(document: TextDocument): void {
+        this.cancelValidation(document.uri);
+        this.pendingValidations.set(document.uri, setTimeout(() => {
+            this.pendingValidations.delete(document.uri);
+            void this.validate(document);
+        }, JsonataLanguageServer.VALIDATION_DELAY));
+    }
+
+    private cancelValidation(uri: string): void {
+        clearTimeout(this.pendingValidations.get(uri));
+        this.pendingValidations.delete(uri);
+    }
+
+    private async validate(document: TextDocument): Promise<void> {
+        const version = document.version;
+        const settings = await this.getSettings(document.uri);
+
+        // The document may have changed while settings were fetched, leaving its next run to report
+        if (document.version !== version) {
+            return;
+        }
+        const serverDocument = this.toServerDocument(document);
+
+        const problems = this.validator.validate(serverDocument.text, {
+            pathChecks: createPathChecks(
+                this.associations.getSchema(serverDocument, settings),
+                this.associations.getSampleData(serverDocument, settings)
+            ),
+            functionAllowlist: settings.functionAllowlist.map(name => name.startsWith('$') ? name.substring(1) : name),
+            lintRules: {
+                ...this.lintConfigLoader.checkRules(settings.lint.rules, 'jsonataValidator.lint.rules'),
+                ...(serverDocument.fsPath ? this.lintConfigLoader.load(serverDocument.fsPath, serverDocument.workspaceFolder) : {})
+            },
+            maxNumberOfProblems: settings.maxNumberOfProblems
+        });
+
+        // The document may have been closed while settings were fetched
+        if (this.documents.get(document.uri)) {
+            void this.connection.sendDiagnostics({ uri: document.uri, diagnostics: problems.map(problem => this.createDiagnostic(problem)) });
+        }
+    }
+
+    private createDiagnostic(problem: ValidationProblem): Diagnostic {
+        return {
+            range: Range.create(problem.line, problem.startChar, problem.line, problem.endChar),
+            message: problem.message,
+            severity: SEVERITIES[problem.severity],
+            source: problem.source,
+            code: problem.code,
+            tags: problem.unnecessary ? [DiagnosticTag.Unnecessary] : undefined
+        };
+    }
+
+    private async provideCompletion(document: TextDocument, offset: number): Promise<CompletionItem[] | null> {
+        const settings = await this.getSettings(document.uri);
+        const sample = this.associations.getSampleData(this.toServerDocument(document), settings);
+        const candidates = getCompletions(document.getText(), offset, sample?.content);
+
+        return candidates?.map(candidate => ({
+            label: candidate.label,
+            labelDetails: candidate.labelDetail !== undefined || candidate.labelDescription !== undefined
+                ? { detail: candidate.labelDetail, description: candidate.labelDescription }
+                : undefined,
+            kind: COMPLETION_KINDS[candidate.kind],
+            detail: candidate.detail,
+            documentation: candidate.documentation ? { kind: MarkupKind.Markdown, value: candidate.documentation } : undefined,
+            sortText: candidate.sortText,
+            insertTextFormat: candidate.isSnippet ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+            textEdit: TextEdit.replace(
+                Range.create(document.positionAt(candidate.start), document.positionAt(candidate.end)),
+                candidate.insertText ?? candidate.label
+            )
+        })) ?? null;
+    }
+
+    private async provideHover(document: TextDocument, offset: number): Promise<Hover | null> {
+        // Variable values are only shown for the playground template, which the extension serves itself
+        const settings = await this.getSettings(document.uri);
+        const sample = this.associations.getSampleData(this.toServerDocument(document), settings);
+        const hover = await getHover(document.getText(), offset, { sampleInput: sample?.content });
+
+        return hover
+            ? {
+                contents: { kind: MarkupKind.Markdown, value: hover.markdown },
+                range: Range.create(document.positionAt(hover.start), document.positionAt(hover.end))
+            }
+            : null;
+    }
+
+    private async provideFormatting(document: TextDocument, options: FormattingOptions, range?: Range): Promise<TextEdit[]> {
+        const settings = await this.getSettings(document.uri);
+        const printOptions: PrintOptions = {
+            indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t',
+            ...settings.format
+        };
+        const offsets = range ? { start: document.offsetAt(range.start), end: document.offsetAt(range.end) } : undefined;
+
+        return formatJsonata(document.getText(), printOptions, offsets).map(replacement => TextEdit.replace(
+            Range.create(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+            replacement.newText
+        ));
+    }
+}
@@ -0,0 +1,22 @@
+import { AssociatedJsonFile, AssociationDocument, findAssociatedFile, findSiblingSampleFile, JsonFileCache } from '../validation/associations';
+import { ServerSettings } from './ServerSettings';
+
+/**
+ * Resolves the schema and sample input of a document the way the extension does:
+ * a header comment first, then the glob settings relative to the workspace folder,
+ * then a sibling `<name>.sample.json` for sample input
+ */
+export class ServerFileAssociations {
+    private jsonFiles = new JsonFileCache();
+
+    public getSchema(document: AssociationDocument, settings: ServerSettings): AssociatedJsonFile | undefined {
+        const fsPath = findAssociatedFile(document, 'schema', settings.schemaAssociations);
+        return fsPath ? this.jsonFiles.load(fsPath) : undefined;
+    }
+
+    public getSampleData(document: AssociationDocument, settings: ServerSettings): AssociatedJsonFile | undefined {
+        const fsPath = findAssociatedFile(document, 'sample', settings.sampleDataAssociations) ??
+            (document.fsPath ? findSiblingSampleFile(document.fsPath) : undefined);
+        return fsPath ? this.jsonFiles.load(fsPath) : undefined;
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * The `jsonataValidator` settings the language server uses, in the nested form
+ * editors send them in, e.g. `{ "lint": { "rules": { ... } } }` for `lint.rules`
+ */
+export interface ServerSettings {
+    validateOnType: boolean;
+    validateOnSave: boolean;
+    maxNumberOfProblems: number;
+    schemaAssociations: Record<string, string>;
+    sampleDataAssociations: Record<string, string>;
+    functionAllowlist: string[];
+    lint: {
+        /** Rule settings as given, checked by `LintConfigLoader.checkRules` when they are used */
+        rules: unknown;
+    };
+    format: {
+        lineWidth: number;
+        spaceAroundOperators: boolean;
+        spaceInsideBlocks: boolean;
+    };
+}
+
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+    validateOnType: true,
+    validateOnSave: true,
+    maxNumberOfProblems: 100,
+    schemaAssociations: {},
+    sampleDataAssociations: {},
+    functionAllowlist: [],
+    lint: {
+        rules: {}
+    },
+    format: {
+        lineWidth: 80,
+        spaceAroundOperators: true,
+        spaceInsideBlocks: true
+    }
+};
+
+/**
+ * Fill in what a client leaves out, or gives with the wrong type, with the defaults
+ */
+export function resolveServerSettings(settings: unknown): ServerSettings {
+    const defaults = DEFAULT_SERVER_SETTINGS;
+    const given = isRecord(settings) ? settings : {};
+    const lint = isRecord(given.lint) ? given.lint : {};
+    const format = isRecord(given.format) ? given.format : {};
+
+    return {
+        validateOnType: pick(given.validateOnType, isBoolean, defaults.validateOnType),
+        validateOnSave: pick(given.validateOnSave, isBoolean, defaults.validateOnSave),
+        maxNumberOfProblems: pick(given.maxNumberOfProblems, isNumber, defaults.maxNumberOfProblems),
+        schemaAssociations: pick(given.schemaAssociations, isStringRecord, defaults.schemaAssociations),
+        sampleDataAssociations: pick(given.sampleDataAssociations, isStringRecord, defaults.sampleDataAssociations),
+        functionAllowlist: pick(given.functionAllowlist, isStringArray, defaults.functionAllowlist),
+        lint: {
+            rules: lint.rules ?? defaults.lint.rules
+        },
+        format: {
+            lineWidth: pick(format.lineWidth, isNumber, defaults.format.lineWidth),
+            spaceAroundOperators: pick(format.spaceAroundOperators, isBoolean, defaults.format.spaceAroundOperators),
+            spaceInsideBlocks: pick(format.spaceInsideBlocks, isBoolean, defaults.format.spaceInsideBlocks)
+        }
+    };
+}
+
+function pick<T>(value: unknown, isValid: (value: unknown) => value is T, fallback: T): T {
+    return isValid(value) ? value : fallback;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+    return typeof value === 'boolean';
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && !Number.isNaN(value);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,5 @@
+import { createConnection, ProposedFeatures } from 'vscode-languageserver/node';
+import { JsonataLanguageServer } from './JsonataLanguageServer';
+
+// The transport comes from the command line: --stdio, --node-ipc or --socket=<port>
+new JsonataLanguageServer(createConnection(ProposedFeatures.all)).listen();
@@ -35,7 +35,8 @@ export class ExportService {
             sessionData.result,
             sessionData.hasError,
             sessionData.errorMessage,
-            'Exported JSONata Playground Session'
+            'Exported JSONata Playground Session',
+            sessionData.bindings
         );
 
         // Convert to shareable string
@@ -75,6 +76,7 @@ export class ExportService {
     private static async extractSessionData(playground: any): Promise<{
         jsonInput: string;
         jsonataExpression: string;
+        bindings: string;
         result: string;
         hasError: boolean;
         errorMessage?: string;
@@ -92,6 +94,7 @@ export class ExportService {
             return {
                 jsonInput: state.jsonInput || '',
                 jsonataExpression: state.jsonataExpression || '',
+                bindings: state.bindings || '{}',
                 result: state.result || '',
                 hasError: !!state.error,
                 errorMessage: state.error || undefined
@@ -139,10 +139,13 @@ export class ImportService {
             // Set JSONata expression
             await playground.setJsonataExpression(session.data.jsonataExpression);
 
+            // Set bindings, clearing those of the current session when the shared one has none
+            await playground.setBindings(session.data.bindings ?? '{}');
+
             // Show success message
             vscode.window.showInformationMessage(
                 'Session imported successfully! The 3-panel layout is ready.',
-                { detail: 'JSON input, JSONata template, and results are now loaded.' }
+                { detail: 'JSON input, JSONata template, bindings and results are now loaded.' }
             );
 
             // Focus the playground
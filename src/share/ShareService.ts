@@ -14,6 +14,8 @@ export interface PlaygroundSession {
     data: {
         jsonInput: string;
         jsonataExpression: string;
+        /** The playground bindings, a JSON object of variable values; absent in older sessions */
+        bindings?: string;
         result: string;
         hasError: boolean;
         errorMessage?: string;
@@ -36,7 +38,8 @@ export class ShareService {
         result: string,
         hasError: boolean = false,
         errorMessage?: string,
-        description?: string
+        description?: string,
+        bindings?: string
     ): PlaygroundSession {
         return {
             version: this.SHARE_FORMAT_VERSION,
@@ -49,6 +52,7 @@ export class ShareService {
             data: {
                 jsonInput,
                 jsonataExpression,
+                bindings,
                 result,
                 hasError,
                 errorMessage
@@ -99,6 +103,7 @@ export class ShareService {
             typeof session.data === 'object' &&
             typeof session.data.jsonInput === 'string' &&
             typeof session.data.jsonataExpression === 'string' &&
+            (session.data.bindings === undefined || typeof session.data.bindings === 'string') &&
             typeof session.data.result === 'string' &&
             typeof session.data.hasError === 'boolean'
         );
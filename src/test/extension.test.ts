@@ -1,9 +1,37 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as childProcess from 'child_process';
+import {
+	createMessageConnection,
+	InitializeRequest,
+	InitializeResult,
+	PublishDiagnosticsParams,
+	StreamMessageReader,
+	StreamMessageWriter,
+	TextDocumentSyncKind
+} from 'vscode-languageclient/node';
 
 // Import our extension module
 import * as myExtension from '../extension';
+import { main as runCli } from '../cli/cli';
+import { JsonFileReport, SarifResult } from '../cli/reporters';
+import { EvaluationRunner } from '../playground/EvaluationRunner';
+import { ExpressionCache } from '../language/expressionCache';
+import { ExpressionValidator } from '../validation/ExpressionValidator';
+import { ValidationScheduler } from '../validation/ValidationScheduler';
+import { ValidationService } from '../validation/ValidationService';
+import { WorkspaceValidator } from '../validation/WorkspaceValidator';
+import { Linter } from '../lint/Linter';
+import { LintConfigLoader } from '../lint/LintConfigLoader';
+import { JsonataTestController } from '../testing/JsonataTestController';
+import { checkOutcome, parseTestFile } from '../testing/templateTests';
+import { SnapshotTester } from '../testing/SnapshotTester';
+import { FileAssociations } from '../validation/FileAssociations';
+import { findEmbeddedExpressions } from '../validation/embeddedExpressions';
+import { extractJsonataExpressionsFromPureJsonata } from '../validation/expressionExtractor';
 
 suite('JSONata Validator Extension Test Suite', () => {
 	vscode.window.showInformationMessage('Starting JSONata Validator tests.');
@@ -78,6 +106,22 @@ suite('JSONata Validator Extension Test Suite', () => {
 		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
 	});
 
+	test('Should report every syntax error of an expression', async () => {
+		const doc = await vscode.workspace.openTextDocument({ content: '$x[ + (', language: 'jsonata' });
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['S0211', 'S0203', 'S0203']);
+		assert.strictEqual(doc.getText(diagnostics[0].range), '+');
+		assert.ok(diagnostics[1].message.includes('Expected ")"'), 'Should report the missing parenthesis');
+		assert.ok(diagnostics[2].message.includes('Expected "]"'), 'Should report the missing bracket');
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
 	test('Should validate selection', async () => {
 		// Create a test document with mixed content
 		const content = `// Valid expression
@@ -205,4 +249,777 @@ $.invalid..syntax`;
 
 		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
 	});
+
+	test('Should split expressions on tokens and --- separators', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: `"it's (" & $match("a", /a/).match\n---\n$count([1])\n  + 1\n---\n$.invalid..syntax`,
+			language: 'jsonata'
+		});
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.range.start.line), [5]);
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should skip // comment lines before, between and after expressions', async () => {
+		const contents = [
+			'// Totals\n$sum(orders.total)\n  // the customer\norder.customer.name\n// trailing note',
+			'// Totals\n$sum(orders.total)\n  + 1\n---\n// the customer\norder.customer.name\n// trailing note\n---\n// nothing here'
+		];
+
+		for (const content of contents) {
+			const doc = await vscode.workspace.openTextDocument({ content, language: 'jsonata' });
+			await vscode.window.showTextDocument(doc);
+			await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+			await new Promise(resolve => setTimeout(resolve, 200));
+
+			assert.deepStrictEqual(vscode.languages.getDiagnostics(doc.uri), [], content);
+
+			await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+		}
+	});
+
+	test('Should skip // comments after expressions', async () => {
+		const content = 'orders.total // the total\ncustomer.name// who ordered\n$count(items) // how many';
+		assert.deepStrictEqual(
+			extractJsonataExpressionsFromPureJsonata(content).map(expression => expression.expression),
+			['orders.total', 'customer.name', '$count(items)']
+		);
+
+		const doc = await vscode.workspace.openTextDocument({ content, language: 'jsonata' });
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		assert.deepStrictEqual(vscode.languages.getDiagnostics(doc.uri), []);
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should warn about paths that do not exist in the bound schema', async () => {
+		const schemaPath = path.join(os.tmpdir(), 'jsonata-validator-test.schema.json');
+		fs.writeFileSync(schemaPath, JSON.stringify({
+			type: 'object',
+			properties: {
+				departments: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: {
+							name: { type: 'string' },
+							employees: { type: 'array', items: { type: 'object', properties: { salary: { type: 'number' } } } }
+						}
+					}
+				}
+			}
+		}));
+
+		const doc = await vscode.workspace.openTextDocument({
+			content: `/* @schema ${schemaPath} */\ndepartments.employees.salary\ndepartmnts.employees`,
+			language: 'jsonata'
+		});
+
+		const editor = await vscode.window.showTextDocument(doc);
+
+		// Execute validation command
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+
+		// Wait a bit for validation to complete
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		// Only the misspelt field should be reported, as a warning
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.strictEqual(diagnostics.length, 1, 'Should report the unknown field only');
+		assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Warning);
+		assert.strictEqual(diagnostics[0].range.start.line, 2);
+		assert.strictEqual(doc.getText(diagnostics[0].range), 'departmnts');
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should warn about paths that match nothing in the sample data', async () => {
+		const samplePath = path.join(os.tmpdir(), 'jsonata-validator-test.sample.json');
+		fs.writeFileSync(samplePath, JSON.stringify({
+			departments: [
+				{ name: 'Engineering', employees: [{ name: 'Alice', salary: 95000 }] }
+			]
+		}));
+
+		const doc = await vscode.workspace.openTextDocument({
+			content: `/* @sample ${samplePath} */\ndepartments.employes[salary > 70000].name`,
+			language: 'jsonata'
+		});
+
+		const editor = await vscode.window.showTextDocument(doc);
+
+		// Execute validation command
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+
+		// Wait a bit for validation to complete
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.strictEqual(diagnostics.length, 1, 'Should report the unresolved step only');
+		assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Warning);
+		assert.ok(diagnostics[0].message.includes("Did you mean 'employees'"), 'Should suggest the closest field name');
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should complete built-in functions and document bindings', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '($double := function($n) { $n * 2 }; $)',
+			language: 'jsonata'
+		});
+
+		const position = new vscode.Position(0, 38);
+		const completions = await vscode.commands.executeCommand<vscode.CompletionList>(
+			'vscode.executeCompletionItemProvider',
+			doc.uri,
+			position,
+			'$'
+		);
+
+		const labels = completions.items.map(item => typeof item.label === 'string' ? item.label : item.label.label);
+		assert.ok(labels.includes('$sum'), 'Should offer built-in functions');
+		assert.ok(labels.includes('$double'), 'Should offer functions bound in the document');
+	});
+
+	test('Should complete the field names of the sample data at the path', async () => {
+		const samplePath = path.join(os.tmpdir(), 'jsonata-validator-completion.sample.json');
+		fs.writeFileSync(samplePath, JSON.stringify({
+			departments: [
+				{ name: 'Engineering', employees: [{ name: 'Alice', salary: 95000 }] }
+			]
+		}));
+
+		const getFieldLabels = async (expression: string) => {
+			const doc = await vscode.workspace.openTextDocument({ content: `/* @sample ${samplePath} */\n${expression}`, language: 'jsonata' });
+			const completions = await vscode.commands.executeCommand<vscode.CompletionList>(
+				'vscode.executeCompletionItemProvider',
+				doc.uri,
+				doc.positionAt(doc.getText().length)
+			);
+			return completions.items
+				.filter(item => item.kind === vscode.CompletionItemKind.Field)
+				.map(item => typeof item.label === 'string' ? item.label : item.label.label)
+				.sort();
+		};
+
+		assert.deepStrictEqual(await getFieldLabels('departments.'), ['employees', 'name']);
+		assert.deepStrictEqual(await getFieldLabels('departments.employees[salary > 1000].'), ['name', 'salary']);
+		assert.deepStrictEqual(await getFieldLabels('departmnts.'), [], 'Should offer nothing for a path the sample does not have');
+	});
+
+	test('Should show hovers for functions, variables and field paths', async () => {
+		const samplePath = path.join(os.tmpdir(), 'jsonata-validator-hover.sample.json');
+		fs.writeFileSync(samplePath, JSON.stringify({ departments: [{ employees: [{ salary: 95000 }, { salary: 70000 }] }] }));
+		const doc = await vscode.workspace.openTextDocument({
+			content: `/* @sample ${samplePath} */\n($rate := 1.2; $sum(departments.employees.salary) * $rate)`,
+			language: 'jsonata'
+		});
+
+		const getHoverText = async (word: string, occurrence: 'first' | 'last' = 'first') => {
+			const text = doc.getText();
+			const offset = (occurrence === 'first' ? text.indexOf(word) : text.lastIndexOf(word)) + 1;
+			const hovers = await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', doc.uri, doc.positionAt(offset));
+			return hovers.flatMap(hover => hover.contents.map(content => typeof content === 'string' ? content : content.value)).join('\n');
+		};
+
+		const builtin = await getHoverText('$sum');
+		assert.ok(builtin.includes('$sum(array)'), 'Should show the signature of a built-in function');
+		assert.ok(builtin.includes('Returns the arithmetic sum'), 'Should show the documentation of a built-in function');
+
+		const variable = await getHoverText('$rate', 'last');
+		assert.ok(variable.includes('$rate := 1.2') && variable.includes('Bound on line 2'), 'Should show where the variable is bound');
+		assert.ok(!variable.includes('Playground value'), 'Should not evaluate templates that are not in the playground');
+
+		const field = await getHoverText('salary');
+		assert.ok(field.includes('**Field** `departments.employees.salary`'), 'Should show the path of the field');
+		assert.ok(field.includes('**Sample value** (first of 2)') && field.includes('95000'), 'Should show the sample values of the field');
+	});
+
+	test('Should resolve variables by scope in hovers, signature help and completion', async () => {
+		const content = '($f := function($a, $b) { $a }; $g := function($f) { $f($a) }; ($hidden := 1); $g($f) + $x)';
+		const doc = await vscode.workspace.openTextDocument({ content, language: 'jsonata' });
+
+		const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+			'vscode.executeHoverProvider', doc.uri, doc.positionAt(content.indexOf('$f($a)') + 1));
+		const hover = hovers.flatMap(item => item.contents.map(part => typeof part === 'string' ? part : part.value)).join('\n');
+		assert.ok(hover.includes('Function parameter on line 1'), 'The parameter should shadow the outer $f');
+
+		const help = await vscode.commands.executeCommand<vscode.SignatureHelp>(
+			'vscode.executeSignatureHelpProvider', doc.uri, doc.positionAt(content.indexOf('$a) }') + 1));
+		assert.strictEqual(help?.signatures.length ?? 0, 0, 'A parameter has no known signature');
+
+		const completions = await vscode.commands.executeCommand<vscode.CompletionList>(
+			'vscode.executeCompletionItemProvider', doc.uri, doc.positionAt(content.length - 1));
+		const variables = completions.items
+			.filter(item => item.kind === vscode.CompletionItemKind.Variable || item.kind === vscode.CompletionItemKind.Function)
+			.map(item => typeof item.label === 'string' ? item.label : item.label.label);
+		assert.ok(variables.includes('$f') && variables.includes('$g'), 'Should offer the bindings in scope');
+		assert.ok(!variables.includes('$hidden'), 'Should not offer bindings of a block that has ended');
+	});
+
+	test('Should follow the active parameter of nested calls in signature help', async () => {
+		const text = '$substring("x, y", $join(["a", "b"], ","), 2) & ($add := function($a, $b)<nn:n>{ $a + $b }; $add(1, 2))';
+		const doc = await vscode.workspace.openTextDocument({ content: text, language: 'jsonata' });
+
+		const getSignature = async (before: string) => {
+			const help = await vscode.commands.executeCommand<vscode.SignatureHelp>(
+				'vscode.executeSignatureHelpProvider',
+				doc.uri,
+				doc.positionAt(text.indexOf(before))
+			);
+			const signature = help.signatures[help.activeSignature];
+			const [start, end] = signature.parameters[help.activeParameter].label as [number, number];
+			return { name: signature.label.substring(0, signature.label.indexOf('(')), parameter: signature.label.substring(start, end) };
+		};
+
+		assert.deepStrictEqual(await getSignature('"x, y"'), { name: '$substring', parameter: 'str: string' });
+		assert.deepStrictEqual(await getSignature('$join'), { name: '$substring', parameter: 'start: number' }, 'Commas in strings do not count');
+		assert.deepStrictEqual(await getSignature('","'), { name: '$join', parameter: 'separator?: string' });
+		assert.deepStrictEqual(await getSignature('2)'), { name: '$substring', parameter: 'length?: number' }, 'Nested calls do not count');
+		assert.deepStrictEqual(await getSignature('2))'), { name: '$add', parameter: '$b: number' });
+	});
+
+	test('Should format documents while keeping comments', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '{"name":name,/* the salary */"salary":salary*12,"department":$parent.name,"skills":$distinct(skills)}',
+			language: 'jsonata'
+		});
+
+		const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+			'vscode.executeFormatDocumentProvider',
+			doc.uri,
+			{ tabSize: 2, insertSpaces: true }
+		);
+
+		assert.strictEqual(edits.length, 1);
+		assert.strictEqual(edits[0].newText, [
+			'{',
+			'  "name": name, /* the salary */',
+			'  "salary": salary * 12,',
+			'  "department": $parent.name,',
+			'  "skills": $distinct(skills)',
+			'}'
+		].join('\n'));
+	});
+
+	test('Should keep comments before a function body in front of the body', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '$map(xs,function(/* each */$v)<n:n>/* doubled */{$v*2})',
+			language: 'jsonata'
+		});
+
+		const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+			'vscode.executeFormatDocumentProvider',
+			doc.uri,
+			{ tabSize: 2, insertSpaces: true }
+		);
+
+		assert.strictEqual(edits.length, 1);
+		assert.strictEqual(edits[0].newText, '$map(xs, function(/* each */ $v)<n:n> /* doubled */ { $v * 2 })');
+	});
+
+	test('Should go to the binding in scope', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '(\n  $x := 1;\n  $inner := ($x := 2; $x);\n  $x + $inner\n)',
+			language: 'jsonata'
+		});
+
+		const inner = await vscode.commands.executeCommand<vscode.Location[]>(
+			'vscode.executeDefinitionProvider',
+			doc.uri,
+			new vscode.Position(2, 23)
+		);
+		assert.deepStrictEqual(inner[0].range.start, new vscode.Position(2, 13), 'Should resolve to the block-local binding');
+
+		const outer = await vscode.commands.executeCommand<vscode.Location[]>(
+			'vscode.executeDefinitionProvider',
+			doc.uri,
+			new vscode.Position(3, 3)
+		);
+		assert.deepStrictEqual(outer[0].range.start, new vscode.Position(1, 2), 'Should resolve to the outer binding');
+	});
+
+	test('Should rename only the references bound to the same declaration', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '($x := 1; $f := function($x) { $x * 2 }; $f($x))',
+			language: 'jsonata'
+		});
+
+		const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+			'vscode.executeDocumentRenameProvider',
+			doc.uri,
+			new vscode.Position(0, 1),
+			'$total'
+		);
+		const ranges = edit.get(doc.uri).map(textEdit => textEdit.range.start.character);
+		assert.deepStrictEqual(ranges, [1, 44], 'Should leave the lambda parameter alone');
+
+		await assert.rejects(Promise.resolve(vscode.commands.executeCommand(
+			'vscode.executeDocumentRenameProvider',
+			doc.uri,
+			new vscode.Position(0, 1),
+			'$count'
+		)), 'Should refuse the name of a built-in function');
+	});
+
+	test('Should outline object keys, bindings and functions', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '(\n  $double := function($n) { $n * 2 };\n  {\n    "name": name,\n    "total": $double(price)\n  }\n)',
+			language: 'jsonata'
+		});
+
+		const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+			'vscode.executeDocumentSymbolProvider',
+			doc.uri
+		);
+
+		assert.strictEqual(symbols.length, 1, 'Should list the expression as a single node');
+		const children = symbols[0].children;
+		assert.deepStrictEqual(children.map(symbol => symbol.name), ['$double', 'name', 'total']);
+		assert.strictEqual(children[0].kind, vscode.SymbolKind.Function);
+		assert.strictEqual(children[1].kind, vscode.SymbolKind.Property);
+	});
+
+	test('Should tell built-in functions from user-defined ones in semantic tokens', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '($double := function($n) { $n * 2 }; $sum($double(`Unit Price`)))',
+			language: 'jsonata'
+		});
+
+		const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend>('vscode.provideDocumentSemanticTokensLegend', doc.uri);
+		const tokens = await vscode.commands.executeCommand<vscode.SemanticTokens>('vscode.provideDocumentSemanticTokens', doc.uri);
+
+		// Tokens are encoded as [deltaLine, deltaStart, length, type, modifiers] on a single line here
+		const decoded = new Map<string, { type: string; modifiers: number }>();
+		let character = 0;
+		for (let i = 0; i < tokens.data.length; i += 5) {
+			character += tokens.data[i + 1];
+			const text = doc.getText(new vscode.Range(0, character, 0, character + tokens.data[i + 2]));
+			decoded.set(text, { type: legend.tokenTypes[tokens.data[i + 3]], modifiers: tokens.data[i + 4] });
+		}
+
+		const defaultLibrary = 1 << legend.tokenModifiers.indexOf('defaultLibrary');
+		assert.strictEqual(decoded.get('$sum')?.type, 'function');
+		assert.ok(decoded.get('$sum')!.modifiers & defaultLibrary, 'Should mark built-ins as default library');
+		assert.strictEqual(decoded.get('$double')?.type, 'function');
+		assert.strictEqual(decoded.get('$n')?.type, 'parameter');
+		assert.strictEqual(decoded.get('`Unit Price`')?.type, 'quotedName');
+	});
+
+	test('Should offer to remove a trailing comma', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '{\n  "name": name,\n}',
+			language: 'jsonata'
+		});
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostic = vscode.languages.getDiagnostics(doc.uri)[0];
+		const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+			'vscode.executeCodeActionProvider',
+			doc.uri,
+			diagnostic.range,
+			vscode.CodeActionKind.QuickFix.value
+		);
+
+		const fix = actions.find(action => action.title === 'Remove trailing comma');
+		assert.ok(fix?.edit, 'Should offer the fix');
+		await vscode.workspace.applyEdit(fix!.edit!);
+		assert.strictEqual(doc.getText(), '{\n  "name": name\n}');
+
+		await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+	});
+
+	test('Should report unknown functions and wrong argument counts', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '{ "total": $sume(price), "code": $substring() }',
+			language: 'jsonata'
+		});
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['unknown-function', 'wrong-arity']);
+		assert.ok(diagnostics[0].message.includes("Did you mean '$sum'"), 'Should suggest the closest built-in');
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should report lint problems unless disabled by a comment', async () => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: '(\n  $unused := 1;\n  $eval("1 + 1") /* jsonata-disable-line no-eval */;\n  $string("a" & "b")\n)',
+			language: 'jsonata'
+		});
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['no-unused-variables', 'no-redundant-string']);
+		assert.ok(diagnostics.every(diagnostic => diagnostic.source === 'jsonata-lint'));
+		assert.deepStrictEqual(diagnostics[0].tags, [vscode.DiagnosticTag.Unnecessary]);
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should report invalid lint severities once and run those rules at their default severity', () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonata-lint-'));
+		const configPath = path.join(directory, '.jsonatalintrc');
+		fs.writeFileSync(configPath, JSON.stringify({ rules: { 'no-eval': 'warn', 'no-unused-variables': 'off' } }));
+		const reports: string[] = [];
+		const loader = new LintConfigLoader(message => reports.push(message));
+
+		try {
+			const documentPath = path.join(directory, 'template.jsonata');
+			assert.deepStrictEqual(loader.load(documentPath, directory), { 'no-unused-variables': 'off' });
+			assert.deepStrictEqual(loader.load(documentPath, directory), { 'no-unused-variables': 'off' });
+
+			const settings = { 'no-redundant-string': ['error', { max: 1 }], 'no-eval': 'Error', 'max-nested-conditions': ['warn', { max: 2 }] };
+			for (let run = 0; run < 2; run++) {
+				assert.deepStrictEqual(loader.checkRules(settings, 'jsonataValidator.lint.rules'), { 'no-redundant-string': ['error', { max: 1 }] });
+			}
+
+			assert.strictEqual(reports.length, 3, 'Each invalid entry should be reported once');
+			assert.ok(reports[0].includes(configPath) && reports[0].includes('"warn"') && reports[0].includes('"no-eval"'));
+			assert.ok(reports[1].startsWith('jsonataValidator.lint.rules') && reports[1].includes('"Error"'));
+			assert.ok(reports[2].includes('"max-nested-conditions"'));
+
+			const problems = new ExpressionValidator().validate('$eval("1")', { lintRules: loader.load(documentPath, directory) });
+			assert.deepStrictEqual(problems.map(problem => [problem.code, problem.severity]), [['no-eval', 'warning']], 'no-eval should run at its default severity');
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('Should validate a burst of edits once, for the latest version', async () => {
+		const doc = await vscode.workspace.openTextDocument({ content: '', language: 'jsonata' });
+		const editor = await vscode.window.showTextDocument(doc);
+		const validatedVersions: number[] = [];
+		const scheduler = new ValidationScheduler(document => validatedVersions.push(document.version), 100);
+
+		try {
+			for (const character of 'a.b.c') {
+				await editor.edit(edit => edit.insert(doc.positionAt(doc.getText().length), character));
+				scheduler.schedule(doc);
+			}
+			await new Promise(resolve => setTimeout(resolve, 300));
+
+			assert.deepStrictEqual(validatedVersions, [doc.version]);
+		} finally {
+			scheduler.dispose();
+			await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+		}
+	});
+
+	test('Should only parse the expressions that changed', () => {
+		const cache = new ExpressionCache();
+		const validator = new ExpressionValidator(new Linter(), cache);
+
+		validator.validate('orders.total\n---\n$sum(orders.total)\n---\n$count(');
+		assert.strictEqual(cache.size, 3);
+		const unchanged = cache.parse('orders.total');
+
+		const problems = validator.validate('orders.total\n---\n$max(orders.total)\n---\n$count(');
+		assert.strictEqual(cache.size, 4, 'Only the edited expression should be added');
+		assert.strictEqual(cache.parse('orders.total'), unchanged, 'Unchanged expressions should reuse their tree');
+		assert.deepStrictEqual(problems.map(problem => problem.line), [4]);
+	});
+
+	test('Should keep the problems of workspace files that are not open', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonata-workspace-'));
+		const uri = vscode.Uri.file(path.join(directory, 'orders.jsonata'));
+		fs.writeFileSync(uri.fsPath, 'orders.total\n---\n$sum(orders.total');
+		const workspaceValidator = new WorkspaceValidator(new ValidationService(vscode.languages.createDiagnosticCollection('jsonata-test')));
+
+		try {
+			await workspaceValidator.validateFile(uri);
+
+			const diagnostics = vscode.languages.getDiagnostics(uri);
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['S0203']);
+			assert.strictEqual(diagnostics[0].range.start.line, 2);
+			assert.ok(!vscode.workspace.textDocuments.some(document => document.uri.fsPath === uri.fsPath), 'Should not open the file');
+		} finally {
+			workspaceValidator.dispose();
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('Playground evaluation should time out without blocking the extension host', async () => {
+		const runner = new EvaluationRunner();
+		const budget = { timeoutMs: 500, memoryLimitMb: 128 };
+
+		try {
+			const endless = await runner.evaluate('( $loop := function($n) { $n < 0 ? 0 : $loop($n + 1) }; $loop(0) )', '{}', budget);
+			assert.deepStrictEqual(endless, { status: 'timeout', timeoutMs: 500 });
+
+			const cancelled = runner.evaluate('$sum([1..1000000])', '{}', budget);
+			const latest = runner.evaluate('example.value', '{"example": {"value": 4}}', budget);
+			assert.deepStrictEqual(await cancelled, { status: 'cancelled' });
+			assert.deepStrictEqual(await latest, { status: 'done', result: '4' });
+		} finally {
+			runner.dispose();
+		}
+	});
+
+	test('Playground evaluation should apply bindings and custom functions', async () => {
+		const runner = new EvaluationRunner();
+		const budget = { timeoutMs: 2000, memoryLimitMb: 128 };
+		const modulePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'jsonata-functions-')), 'functions.js');
+		fs.writeFileSync(modulePath, `module.exports = { double: n => n * 2, label: { implementation: s => '#' + s, signature: '<s:s>' } };`);
+
+		try {
+			const context = { bindings: '{"rate": 3, "$unit": "kg"}', functionsModule: modulePath };
+			const result = await runner.evaluate('$label($string($double(amount) * $rate) & $unit)', '{"amount": 2}', budget, context);
+			assert.deepStrictEqual(result, { status: 'done', result: '"#12kg"' });
+
+			const wrongType = await runner.evaluate('$label(1)', '{}', budget, context);
+			assert.strictEqual(wrongType.status, 'error');
+
+			const invalidBindings = await runner.evaluate('$rate', '{}', budget, { bindings: '[1]' });
+			assert.strictEqual(invalidBindings.status, 'error');
+		} finally {
+			runner.dispose();
+			fs.rmSync(path.dirname(modulePath), { recursive: true, force: true });
+		}
+	});
+
+	test('Template tests should list their cases and report structural differences', async () => {
+		const testFileUri = vscode.Uri.file(path.resolve(__dirname, '../../examples/average-age-engineering.jsonata-test.json'));
+		const testController = new JsonataTestController('jsonataTemplateTestsUnderTest');
+		const runner = new EvaluationRunner();
+		const budget = { timeoutMs: 2000, memoryLimitMb: 128 };
+
+		try {
+			const fileItem = await testController.updateTestFile(testFileUri);
+			assert.strictEqual(fileItem?.children.size, 3);
+			assert.strictEqual(fileItem?.error, undefined);
+
+			const file = parseTestFile(fs.readFileSync(testFileUri.fsPath, 'utf8'));
+			const [, othersIgnored, textAge] = file.tests;
+			const template = fs.readFileSync(path.join(path.dirname(testFileUri.fsPath), file.template!), 'utf8');
+			const input = JSON.stringify(othersIgnored.input);
+			assert.deepStrictEqual(checkOutcome(othersIgnored, await runner.evaluate(template, input, budget)), { passed: true });
+			assert.deepStrictEqual(checkOutcome(textAge, await runner.evaluate(template, JSON.stringify(textAge.input), budget)), { passed: true });
+
+			const failing = await runner.evaluate('users.{ "name": name, "age": age + 1 }', input, budget);
+			const verdict = checkOutcome({ ...othersIgnored, expected: [{ name: 'Alice', age: 31 }, { name: 'Bob', age: 50 }] }, failing);
+			assert.ok(!verdict.passed && verdict.message.startsWith('$[1].age: expected 50, got 51'), 'Should name the differing path');
+			assert.ok(!verdict.passed && verdict.message.includes('$[2]: unexpected'), 'Should report the extra item');
+		} finally {
+			runner.dispose();
+			testController.dispose();
+		}
+	});
+
+	test('Snapshots should be written once and then flag drift until accepted', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonata-snapshots-'));
+		const templateUri = vscode.Uri.file(path.join(directory, 'totals.jsonata'));
+		const snapshotPath = path.join(directory, '__snapshots__', 'totals.json');
+		fs.writeFileSync(path.join(directory, 'totals.sample.json'), JSON.stringify({ orders: [{ total: 5 }, { total: 7 }] }));
+		fs.writeFileSync(templateUri.fsPath, '{ "sum": $sum(orders.total) }');
+		const snapshotTester = new SnapshotTester(new FileAssociations());
+
+		try {
+			assert.strictEqual(await snapshotTester.checkFile(templateUri), 'written');
+			assert.deepStrictEqual(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')), { sum: 12 });
+			assert.strictEqual(await snapshotTester.checkFile(templateUri), 'unchanged');
+
+			fs.writeFileSync(templateUri.fsPath, '{ "sum": $sum(orders.total) + 1 }');
+			assert.strictEqual(await snapshotTester.checkFile(templateUri), 'changed');
+			const diagnostics = vscode.languages.getDiagnostics(templateUri);
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['snapshot-drift']);
+			assert.ok(diagnostics[0].message.includes('$.sum: expected 12, got 13'), 'Should name the differing path');
+			assert.deepStrictEqual(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')), { sum: 12 }, 'Should keep the snapshot until accepted');
+
+			assert.ok(await snapshotTester.acceptSnapshot(templateUri));
+			assert.deepStrictEqual(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')), { sum: 13 });
+			assert.strictEqual(vscode.languages.getDiagnostics(templateUri).length, 0);
+		} finally {
+			snapshotTester.dispose();
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('Should fold YAML block and flow scalars the way YAML reads them', () => {
+		const source = [
+			'steps:',
+			'  - when: >',
+			'      $sum(orders.price)',
+			'      > 100',
+			'',
+			'      and $exists(id)',
+			'  - { when: "$count(items) > 0", name: &first check }',
+			'  - when: *first',
+			''
+		].join('\n');
+
+		const expressions = findEmbeddedExpressions(source, 'yaml', { json: [], yaml: ['$.steps[*].when'], calls: [] });
+
+		assert.deepStrictEqual(expressions.map(expression => expression.text), [
+			'$sum(orders.price) > 100\nand $exists(id)',
+			'$count(items) > 0'
+		]);
+		const [folded, flow] = expressions;
+		// Each character maps back to the document, the folded line break to the newline it replaces
+		const space = folded.text.indexOf(' > 100');
+		assert.strictEqual(source[folded.offsets[space]], '\n');
+		assert.strictEqual(folded.offsets[space + 1], source.indexOf('> 100'));
+		assert.strictEqual(folded.offsets[folded.text.indexOf('and')], source.indexOf('and $exists'));
+		assert.strictEqual(flow.offsets[0], source.indexOf('$count'));
+	});
+
+	test('Should report syntax errors in jsonata() calls at the string position', async () => {
+		const source = [
+			`const valid = jsonata('$sum(\\'a\\')');`,
+			`const invalid = jsonata("$x[\\"a\\"] +");`
+		].join('\n');
+		const doc = await vscode.workspace.openTextDocument({ content: source, language: 'typescript' });
+
+		await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand('jsonata-validator.validateDocument');
+		await new Promise(resolve => setTimeout(resolve, 200));
+
+		const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Error);
+
+		const line = doc.lineAt(1).text;
+		const { start, end } = diagnostics[0].range;
+		assert.strictEqual(start.line, 1);
+		assert.ok(start.character > line.indexOf('"') && end.character <= line.lastIndexOf('"'), 'Should point into the string literal');
+
+		await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+	});
+
+	test('Should skip regular expression literals when finding jsonata() calls', () => {
+		const source = [
+			`const re = /jsonata('x')/g;`,
+			`const quoted = /["'[/]/.test(name) || /\\/jsonata('y')/;`,
+			`const ratio = total / count / 2 + jsonata('$a') / 2;`,
+			`return /jsonata('z')/.test(jsonata('$b'));`
+		].join('\n');
+
+		const expressions = findEmbeddedExpressions(source, 'script', { json: [], yaml: [], calls: ['jsonata'] });
+
+		assert.deepStrictEqual(expressions.map(expression => expression.text), ['$a', '$b']);
+	});
+
+	test('Language server should publish diagnostics over stdio', async () => {
+		const server = childProcess.spawn(process.execPath, [path.resolve(__dirname, '../server/server.js'), '--stdio'], {
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' }
+		});
+		const connection = createMessageConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin));
+		const published = new Promise<PublishDiagnosticsParams>(resolve =>
+			connection.onNotification('textDocument/publishDiagnostics', resolve));
+		connection.listen();
+
+		try {
+			const result: InitializeResult = await connection.sendRequest(InitializeRequest.type, { processId: process.pid, rootUri: null, capabilities: {} });
+			const { capabilities } = result;
+			assert.deepStrictEqual(capabilities.textDocumentSync, {
+				openClose: true,
+				change: TextDocumentSyncKind.Incremental,
+				save: { includeText: false }
+			}, 'Should sync changes incrementally and be told about saves');
+			assert.deepStrictEqual(capabilities.completionProvider?.triggerCharacters, ['$', '.', '[', '{'], 'Should offer completion');
+			assert.strictEqual(capabilities.hoverProvider, true, 'Should offer hovers');
+			assert.strictEqual(capabilities.documentFormattingProvider, true, 'Should offer formatting');
+			assert.strictEqual(capabilities.documentRangeFormattingProvider, true, 'Should offer range formatting');
+			assert.strictEqual(result.serverInfo?.name, 'jsonata-language-server');
+
+			connection.sendNotification('initialized', {});
+			connection.sendNotification('textDocument/didOpen', {
+				textDocument: { uri: 'untitled:server-test', languageId: 'jsonata', version: 1, text: '$sume(price)' }
+			});
+
+			const { diagnostics } = await published;
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.code), ['unknown-function']);
+		} finally {
+			connection.dispose();
+			server.kill();
+		}
+	});
+
+	test('Language server should follow validateOnType and validateOnSave', async () => {
+		const server = childProcess.spawn(process.execPath, [path.resolve(__dirname, '../server/server.js'), '--stdio'], {
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' }
+		});
+		const connection = createMessageConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin));
+		const published: PublishDiagnosticsParams[] = [];
+		connection.onNotification('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) => published.push(params));
+		connection.listen();
+		const wait = () => new Promise(resolve => setTimeout(resolve, 600));
+		const textDocument = { uri: 'untitled:server-settings-test', version: 2 };
+
+		try {
+			await connection.sendRequest(InitializeRequest.type, {
+				processId: process.pid,
+				rootUri: null,
+				capabilities: {},
+				initializationOptions: { settings: { validateOnType: false, validateOnSave: true } }
+			});
+			connection.sendNotification('initialized', {});
+			connection.sendNotification('textDocument/didOpen', {
+				textDocument: { uri: textDocument.uri, languageId: 'jsonata', version: 1, text: '$sum(price)' }
+			});
+			await wait();
+			assert.deepStrictEqual(published.map(params => params.diagnostics.length), [0], 'Should validate on open');
+
+			connection.sendNotification('textDocument/didChange', { textDocument, contentChanges: [{ text: '$sume(price)' }] });
+			await wait();
+			assert.strictEqual(published.length, 1, 'Should not validate as the document is typed in');
+
+			connection.sendNotification('textDocument/didSave', { textDocument });
+			await wait();
+			assert.deepStrictEqual(published[1]?.diagnostics.map(diagnostic => diagnostic.code), ['unknown-function'], 'Should validate on save');
+		} finally {
+			connection.dispose();
+			server.kill();
+		}
+	});
+
+	test('Command line validator should report problems and fail on errors', () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonata-cli-'));
+		fs.writeFileSync(path.join(directory, 'valid.jsonata'), '$sum(price)');
+		fs.writeFileSync(path.join(directory, 'invalid.jsonata'), '$sume(price)');
+
+		const run = (format: string) => {
+			let stdout = '';
+			const exitCode = runCli([directory, '--format', format], directory, {
+				stdout: text => { stdout += text; },
+				stderr: () => {}
+			});
+			return { exitCode, stdout };
+		};
+
+		const json = run('json');
+		assert.strictEqual(json.exitCode, 1);
+		const report: JsonFileReport[] = JSON.parse(json.stdout);
+		assert.deepStrictEqual(report.map(file => file.filePath), ['invalid.jsonata', 'valid.jsonata']);
+		assert.deepStrictEqual(report[0].problems.map(problem => problem.ruleId), ['unknown-function']);
+		assert.deepStrictEqual(report[1].problems, []);
+
+		const sarif = run('sarif');
+		assert.strictEqual(sarif.exitCode, 1);
+		const results: SarifResult[] = JSON.parse(sarif.stdout).runs[0].results;
+		assert.deepStrictEqual(results.map(result => [result.ruleId, result.level]), [['unknown-function', 'error']]);
+		assert.deepStrictEqual(results[0].locations[0].physicalLocation.region, { startLine: 1, startColumn: 1, endLine: 1, endColumn: 6 });
+		assert.strictEqual(results[0].locations[0].physicalLocation.artifactLocation.uri, 'invalid.jsonata');
+
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
 });
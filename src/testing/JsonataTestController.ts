@@ -0,0 +1,244 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EvaluationRunner } from '../playground/EvaluationRunner';
+import { getEvaluationBudget, getFunctionsModulePath } from '../playground/evaluationSettings';
+import { checkOutcome, getTestBindings, parseTestFile, TemplateTestCase, TemplateTestFile, TEST_FILE_PATTERN } from './templateTests';
+
+interface TestCaseData {
+    file: TemplateTestFile;
+    test: TemplateTestCase;
+}
+
+/**
+ * Shows the cases of `*.jsonata-test.json` files in the Test Explorer and runs them, evaluating
+ * templates the way the playground does: in an `EvaluationRunner` worker, with the playground's
+ * time and memory budget and custom functions module.
+ */
+export class JsonataTestController implements vscode.Disposable {
+    private controller: vscode.TestController;
+    private runner: EvaluationRunner;
+    private cases = new WeakMap<vscode.TestItem, TestCaseData>();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param id The test controller id, which must be unique among the controllers of the extension
+     */
+    constructor(id: string = 'jsonataTemplateTests', workerPath?: string) {
+        this.runner = new EvaluationRunner(workerPath);
+        this.controller = vscode.tests.createTestController(id, 'JSONata Templates');
+        this.controller.resolveHandler = async item => {
+            if (!item) {
+                await this.discoverTestFiles();
+            }
+        };
+        this.controller.refreshHandler = () => this.discoverTestFiles();
+        this.controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => this.runTests(request, token), true);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(TEST_FILE_PATTERN);
+        watcher.onDidCreate(uri => this.updateTestFile(uri));
+        watcher.onDidChange(uri => this.updateTestFile(uri));
+        watcher.onDidDelete(uri => this.controller.items.delete(uri.toString()));
+
+        // Unsaved edits show up as they are typed
+        const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument(event => {
+            if (this.isTestFile(event.document.uri)) {
+                this.updateTestFileFromText(event.document.uri, event.document.getText());
+            }
+        });
+
+        this.disposables.push(this.controller, watcher, onDidChangeTextDocument);
+    }
+
+    /**
+     * Finds the test files of the workspace
+     */
+    public async discoverTestFiles(): Promise<void> {
+        const uris = await vscode.workspace.findFiles(TEST_FILE_PATTERN, '**/node_modules/**');
+        await Promise.all(uris.map(uri => this.updateTestFile(uri)));
+    }
+
+    /**
+     * Reads a test file into a test item with a child per case
+     */
+    public async updateTestFile(uri: vscode.Uri): Promise<vscode.TestItem | undefined> {
+        const text = await this.readText(uri);
+        return text === undefined ? undefined : this.updateTestFileFromText(uri, text);
+    }
+
+    /**
+     * Runs the cases of a request, or all of them, and reports them to a test run
+     */
+    public async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const cancellation = token.onCancellationRequested(() => this.runner.cancel());
+
+        const queue: vscode.TestItem[] = [];
+        const excluded = new Set(request.exclude ?? []);
+        const collect = (item: vscode.TestItem) => {
+            if (excluded.has(item)) {
+                return;
+            }
+            if (this.cases.has(item)) {
+                queue.push(item);
+                run.enqueued(item);
+            }
+            item.children.forEach(collect);
+        };
+        if (request.include) {
+            request.include.forEach(collect);
+        } else {
+            this.controller.items.forEach(collect);
+        }
+
+        try {
+            for (const item of queue) {
+                if (token.isCancellationRequested) {
+                    run.skipped(item);
+                    continue;
+                }
+                await this.runTestCase(run, item);
+            }
+        } finally {
+            cancellation.dispose();
+            run.end();
+        }
+    }
+
+    public dispose(): void {
+        this.runner.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private async runTestCase(run: vscode.TestRun, item: vscode.TestItem): Promise<void> {
+        const { file, test } = this.cases.get(item)!;
+        const testFileUri = item.uri!;
+        run.started(item);
+
+        let expression: string;
+        let input: string;
+        try {
+            expression = await this.loadExpression(testFileUri, file);
+            input = await this.loadInput(testFileUri, test);
+        } catch (error) {
+            run.errored(item, this.createMessage(item, error instanceof Error ? error.message : String(error)));
+            return;
+        }
+
+        const started = Date.now();
+        const outcome = await this.runner.evaluate(expression, input, getEvaluationBudget(), {
+            bindings: getTestBindings(file, test),
+            functionsModule: getFunctionsModulePath()
+        });
+        const duration = Date.now() - started;
+
+        if (outcome.status === 'cancelled') {
+            run.skipped(item);
+            return;
+        }
+
+        const verdict = checkOutcome(test, outcome);
+        if (verdict.passed) {
+            run.passed(item, duration);
+        } else if (verdict.expected !== undefined && verdict.actual !== undefined) {
+            // Shown as a diff of the expected and actual output, with the differing paths as the message
+            const message = vscode.TestMessage.diff(verdict.message, verdict.expected, verdict.actual);
+            message.location = this.getLocation(item);
+            run.failed(item, message, duration);
+        } else {
+            run.failed(item, this.createMessage(item, verdict.message), duration);
+        }
+    }
+
+    private updateTestFileFromText(uri: vscode.Uri, text: string): vscode.TestItem {
+        let fileItem = this.controller.items.get(uri.toString());
+        if (!fileItem) {
+            fileItem = this.controller.createTestItem(uri.toString(), path.basename(uri.fsPath), uri);
+            this.controller.items.add(fileItem);
+        }
+
+        let file: TemplateTestFile;
+        try {
+            file = parseTestFile(text);
+            fileItem.error = undefined;
+        } catch (error) {
+            fileItem.error = error instanceof Error ? error.message : String(error);
+            fileItem.children.replace([]);
+            return fileItem;
+        }
+
+        fileItem.children.replace(file.tests.map((test, index) => {
+            const item = this.controller.createTestItem(`${uri.toString()}#${index}`, test.name, uri);
+            const position = positionAt(text, test.offset);
+            item.range = new vscode.Range(position, position);
+            this.cases.set(item, { file, test });
+            return item;
+        }));
+        return fileItem;
+    }
+
+    private async loadExpression(testFileUri: vscode.Uri, file: TemplateTestFile): Promise<string> {
+        if (file.expression !== undefined) {
+            return file.expression;
+        }
+
+        const templateUri = vscode.Uri.joinPath(testFileUri, '..', file.template!);
+        const text = await this.readText(templateUri);
+        if (text === undefined) {
+            throw new Error(`Template ${file.template} does not exist`);
+        }
+        return text;
+    }
+
+    private async loadInput(testFileUri: vscode.Uri, test: TemplateTestCase): Promise<string> {
+        if (test.inputFile === undefined) {
+            return JSON.stringify(test.input ?? {});
+        }
+
+        const text = await this.readText(vscode.Uri.joinPath(testFileUri, '..', test.inputFile));
+        if (text === undefined) {
+            throw new Error(`Input file ${test.inputFile} does not exist`);
+        }
+        try {
+            JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Input file ${test.inputFile} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+        return text;
+    }
+
+    /**
+     * Reads a file, preferring the text of an open editor over what is saved
+     */
+    private async readText(uri: vscode.Uri): Promise<string | undefined> {
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (open) {
+            return open.getText();
+        }
+
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private createMessage(item: vscode.TestItem, text: string): vscode.TestMessage {
+        const message = new vscode.TestMessage(text);
+        message.location = this.getLocation(item);
+        return message;
+    }
+
+    private getLocation(item: vscode.TestItem): vscode.Location | undefined {
+        return item.uri && item.range ? new vscode.Location(item.uri, item.range) : undefined;
+    }
+
+    private isTestFile(uri: vscode.Uri): boolean {
+        return uri.scheme === 'file' && uri.path.endsWith('.jsonata-test.json');
+    }
+}
+
+function positionAt(text: string, offset: number): vscode.Position {
+    const before = text.substring(0, offset).split('\n');
+    return new vscode.Position(before.length - 1, before[before.length - 1].length);
+}
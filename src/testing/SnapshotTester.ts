@@ -0,0 +1,320 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getDocumentExpressions } from '../language/documentExpressions';
+import { EvaluationOutcome, EvaluationRunner } from '../playground/EvaluationRunner';
+import { getEvaluationBudget, getFunctionsModulePath } from '../playground/evaluationSettings';
+import { FileAssociations } from '../validation/FileAssociations';
+import { FileDocument } from '../validation/FileDocument';
+import { compareSnapshot, formatSnapshot, getSnapshotPath, SNAPSHOT_DIRECTORY } from './snapshots';
+
+const SNAPSHOT_DRIFT = 'snapshot-drift';
+const SNAPSHOT_ERROR = 'snapshot-error';
+
+/**
+ * What checking a template against its snapshot found
+ */
+export type SnapshotStatus = 'no-sample' | 'no-snapshot' | 'written' | 'unchanged' | 'changed' | 'failed' | 'cancelled';
+
+/**
+ * What a workspace snapshot run found
+ */
+export interface SnapshotSummary {
+    checked: number;
+    written: number;
+    changed: number;
+    failed: number;
+    cancelled: boolean;
+}
+
+/**
+ * New output of a template that differs from its snapshot, waiting to be accepted
+ */
+interface PendingSnapshot {
+    snapshotUri: vscode.Uri;
+    text: string;
+}
+
+/**
+ * Snapshot tests for templates: each `.jsonata` file with a sample input (see `FileAssociations`) is
+ * evaluated against it the way the playground evaluates, and the output is kept in
+ * `__snapshots__/<name>.json` next to it. The first run writes the snapshot; later runs report
+ * output that drifted from it as a diagnostic on the template, with quick fixes to compare the
+ * two in a diff editor and to accept the new output.
+ */
+export class SnapshotTester implements vscode.CodeActionProvider, vscode.TextDocumentContentProvider, vscode.Disposable {
+    /** The scheme of the new output shown on the right of the diff editor */
+    public static readonly scheme = 'jsonata-snapshot';
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnosticCollection = vscode.languages.createDiagnosticCollection('jsonata-snapshots');
+    private runner: EvaluationRunner;
+    /** By template URI */
+    private pending = new Map<string, PendingSnapshot>();
+    private onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private fileAssociations: FileAssociations, workerPath?: string) {
+        this.runner = new EvaluationRunner(workerPath);
+    }
+
+    /**
+     * Checks the workspace behind a notification that shows progress and can cancel the run
+     */
+    public async checkWorkspaceWithProgress(): Promise<void> {
+        const summary = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checking JSONata snapshots',
+            cancellable: true
+        }, (progress, token) => this.checkWorkspace(progress, token));
+
+        if (summary.checked === 0) {
+            vscode.window.showInformationMessage('No JSONata files with a sample input found in the workspace');
+            return;
+        }
+
+        const counts = `${summary.written} written, ${summary.changed} changed, ${summary.failed} failed`;
+        if (summary.cancelled) {
+            vscode.window.showWarningMessage(`JSONata snapshot check cancelled after ${summary.checked} templates: ${counts}`);
+        } else if (summary.changed > 0 || summary.failed > 0) {
+            const actions = summary.changed > 0 ? ['Show Diff', 'Accept All'] : [];
+            const choice = await vscode.window.showWarningMessage(`✗ Checked ${summary.checked} JSONata snapshots: ${counts}`, ...actions);
+            if (choice === 'Show Diff') {
+                await this.showDiff(vscode.Uri.parse([...this.pending.keys()][0]));
+            } else if (choice === 'Accept All') {
+                await this.acceptAll();
+            }
+        } else {
+            vscode.window.showInformationMessage(`✓ Checked ${summary.checked} JSONata snapshots: ${counts}`);
+        }
+    }
+
+    /**
+     * Checks every `.jsonata` file of the workspace that has a sample input, writing missing snapshots
+     */
+    public async checkWorkspace(
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<SnapshotSummary> {
+        const uris = await vscode.workspace.findFiles('**/*.jsonata', `**/{node_modules,${SNAPSHOT_DIRECTORY}}/**`, undefined, token);
+        const cancellation = token?.onCancellationRequested(() => this.runner.cancel());
+        const summary: SnapshotSummary = { checked: 0, written: 0, changed: 0, failed: 0, cancelled: false };
+
+        try {
+            for (const uri of uris) {
+                if (token?.isCancellationRequested) {
+                    summary.cancelled = true;
+                    break;
+                }
+
+                progress?.report({ increment: 100 / uris.length, message: vscode.workspace.asRelativePath(uri) });
+                const status = await this.checkFile(uri);
+                if (status === 'cancelled') {
+                    summary.cancelled = true;
+                    break;
+                }
+                if (status !== 'no-sample' && status !== 'no-snapshot') {
+                    summary.checked++;
+                    summary.written += status === 'written' ? 1 : 0;
+                    summary.changed += status === 'changed' ? 1 : 0;
+                    summary.failed += status === 'failed' ? 1 : 0;
+                }
+            }
+        } finally {
+            cancellation?.dispose();
+        }
+
+        return summary;
+    }
+
+    /**
+     * Evaluates a template against its sample input and compares the output with its snapshot
+     *
+     * @param writeMissing Whether to write the snapshot when there is none yet
+     */
+    public async checkFile(templateUri: vscode.Uri, writeMissing = true): Promise<SnapshotStatus> {
+        const key = templateUri.toString();
+        const document = vscode.workspace.textDocuments.find(open => open.uri.toString() === key) ?? await FileDocument.read(templateUri);
+        const sample = document ? this.fileAssociations.getSampleData(document) : undefined;
+        if (!document || !sample) {
+            this.clear(templateUri);
+            return 'no-sample';
+        }
+
+        const snapshotUri = vscode.Uri.file(getSnapshotPath(templateUri.fsPath));
+        const stored = await readText(snapshotUri);
+        if (stored === undefined && !writeMissing) {
+            this.clear(templateUri);
+            return 'no-snapshot';
+        }
+
+        const expressions = getDocumentExpressions(document);
+        const input = JSON.stringify(sample.content);
+        const outputs: unknown[] = [];
+        for (const expression of expressions) {
+            const outcome = await this.runner.evaluate(expression.text, input, getEvaluationBudget(), {
+                functionsModule: getFunctionsModulePath()
+            });
+
+            if (outcome.status === 'cancelled') {
+                return 'cancelled';
+            }
+            if (outcome.status !== 'done') {
+                this.pending.delete(key);
+                const message = `Could not evaluate against the sample input ${path.basename(sample.fsPath)}: ${describeFailure(outcome)}`;
+                this.setDiagnostic(templateUri, expression.range, message, SNAPSHOT_ERROR);
+                return 'failed';
+            }
+            outputs.push(outcome.result === undefined ? undefined : JSON.parse(outcome.result));
+        }
+
+        const text = formatSnapshot(outputs);
+        if (stored === undefined) {
+            await this.writeSnapshot(snapshotUri, text);
+            this.clear(templateUri);
+            return 'written';
+        }
+
+        const drift = compareSnapshot(stored, text);
+        if (drift === undefined) {
+            this.clear(templateUri);
+            return 'unchanged';
+        }
+
+        this.pending.set(key, { snapshotUri, text });
+        this.onDidChangeEmitter.fire(this.getOutputUri(templateUri, snapshotUri));
+        const start = expressions[0]?.range.start ?? new vscode.Position(0, 0);
+        const range = new vscode.Range(start, document.lineAt(start.line).range.end);
+        const message = `Output differs from ${SNAPSHOT_DIRECTORY}/${path.basename(snapshotUri.fsPath)}:\n${drift}`;
+        this.setDiagnostic(templateUri, range, message, SNAPSHOT_DRIFT);
+        return 'changed';
+    }
+
+    /**
+     * Re-checks a saved template that has a snapshot, so a refactoring shows its drift right away
+     */
+    public onDidSave(document: vscode.TextDocument): void {
+        if (document.uri.scheme === 'file' && path.extname(document.uri.fsPath) === '.jsonata') {
+            void this.checkFile(document.uri, false);
+        }
+    }
+
+    /**
+     * Replaces the snapshot of a template with its new output. Returns false when nothing is waiting to be accepted.
+     */
+    public async acceptSnapshot(templateUri: vscode.Uri): Promise<boolean> {
+        const pending = this.pending.get(templateUri.toString());
+        if (!pending) {
+            return false;
+        }
+
+        await this.writeSnapshot(pending.snapshotUri, pending.text);
+        this.clear(templateUri);
+        return true;
+    }
+
+    /**
+     * Accepts the new output of every template that drifted, returning how many snapshots were replaced
+     */
+    public async acceptAll(): Promise<number> {
+        let accepted = 0;
+        for (const key of [...this.pending.keys()]) {
+            accepted += await this.acceptSnapshot(vscode.Uri.parse(key)) ? 1 : 0;
+        }
+        return accepted;
+    }
+
+    /**
+     * Opens the snapshot of a template and its new output side by side
+     */
+    public async showDiff(templateUri: vscode.Uri): Promise<void> {
+        const pending = this.pending.get(templateUri.toString());
+        if (!pending) {
+            vscode.window.showInformationMessage(`The output of ${path.basename(templateUri.fsPath)} matches its snapshot`);
+            return;
+        }
+
+        const title = `${path.basename(pending.snapshotUri.fsPath)} (snapshot ↔ new output)`;
+        await vscode.commands.executeCommand('vscode.diff', pending.snapshotUri, this.getOutputUri(templateUri, pending.snapshotUri), title);
+    }
+
+    /**
+     * Finds the template behind a URI, which may be the new output of the diff editor
+     */
+    public getTemplateUri(uri: vscode.Uri): vscode.Uri {
+        return uri.scheme === SnapshotTester.scheme ? vscode.Uri.parse(uri.query) : uri;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.pending.get(uri.query)?.text ?? '';
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const diagnostic = context.diagnostics.find(candidate => candidate.code === SNAPSHOT_DRIFT);
+        if (!diagnostic || !this.pending.has(document.uri.toString())) {
+            return [];
+        }
+
+        const accept = new vscode.CodeAction('Accept new snapshot', vscode.CodeActionKind.QuickFix);
+        accept.command = { title: accept.title, command: 'jsonata-validator.acceptSnapshot', arguments: [document.uri] };
+        accept.diagnostics = [diagnostic];
+
+        const compare = new vscode.CodeAction('Compare output with snapshot', vscode.CodeActionKind.QuickFix);
+        compare.command = { title: compare.title, command: 'jsonata-validator.showSnapshotDiff', arguments: [document.uri] };
+        compare.diagnostics = [diagnostic];
+
+        return [compare, accept];
+    }
+
+    public dispose(): void {
+        this.runner.dispose();
+        this.diagnosticCollection.dispose();
+        this.onDidChangeEmitter.dispose();
+        this.pending.clear();
+    }
+
+    private async writeSnapshot(snapshotUri: vscode.Uri, text: string): Promise<void> {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(snapshotUri, '..'));
+        await vscode.workspace.fs.writeFile(snapshotUri, new TextEncoder().encode(text));
+    }
+
+    private setDiagnostic(templateUri: vscode.Uri, range: vscode.Range, message: string, code: string): void {
+        const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.code = code;
+        diagnostic.source = 'jsonata-snapshot';
+        this.diagnosticCollection.set(templateUri, [diagnostic]);
+    }
+
+    private clear(templateUri: vscode.Uri): void {
+        this.pending.delete(templateUri.toString());
+        this.diagnosticCollection.delete(templateUri);
+    }
+
+    private getOutputUri(templateUri: vscode.Uri, snapshotUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({ scheme: SnapshotTester.scheme, path: snapshotUri.path, query: templateUri.toString() });
+    }
+}
+
+function describeFailure(outcome: EvaluationOutcome): string {
+    switch (outcome.status) {
+        case 'error':
+            return `${outcome.error.code ? `[${outcome.error.code}] ` : ''}${outcome.error.message}`;
+        case 'timeout':
+            return `timed out after ${outcome.timeoutMs} ms`;
+        case 'out-of-memory':
+            return `ran out of memory (limit ${outcome.memoryLimitMb} MB)`;
+        default:
+            return 'evaluation was cancelled';
+    }
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * A place where two JSON values differ, with a JSONPath-like location such as `$.orders[1].total`
+ */
+export interface JsonDifference {
+	path: string;
+	kind: 'changed' | 'missing' | 'unexpected';
+	expected?: unknown;
+	actual?: unknown;
+}
+
+/**
+ * Compares two JSON values structurally, returning where they differ. Object keys are compared
+ * regardless of order, array items by position.
+ */
+export function diffJson(expected: unknown, actual: unknown, path = '$'): JsonDifference[] {
+	if (isObject(expected) && isObject(actual)) {
+		const differences: JsonDifference[] = [];
+		for (const key of Object.keys(expected)) {
+			differences.push(...(key in actual
+				? diffJson(expected[key], actual[key], propertyPath(path, key))
+				: [{ path: propertyPath(path, key), kind: 'missing' as const, expected: expected[key] }]));
+		}
+		for (const key of Object.keys(actual)) {
+			if (!(key in expected)) {
+				differences.push({ path: propertyPath(path, key), kind: 'unexpected', actual: actual[key] });
+			}
+		}
+		return differences;
+	}
+
+	if (Array.isArray(expected) && Array.isArray(actual)) {
+		const differences: JsonDifference[] = [];
+		for (let index = 0; index < Math.max(expected.length, actual.length); index++) {
+			const itemPath = `${path}[${index}]`;
+			if (index >= actual.length) {
+				differences.push({ path: itemPath, kind: 'missing', expected: expected[index] });
+			} else if (index >= expected.length) {
+				differences.push({ path: itemPath, kind: 'unexpected', actual: actual[index] });
+			} else {
+				differences.push(...diffJson(expected[index], actual[index], itemPath));
+			}
+		}
+		return differences;
+	}
+
+	return expected === actual ? [] : [{ path, kind: 'changed', expected, actual }];
+}
+
+/**
+ * Describes differences one per line, e.g. `$.orders[1].total: expected 12, got 13`
+ */
+export function formatDifferences(differences: JsonDifference[], limit = 10): string {
+	const lines = differences.slice(0, limit).map(difference => {
+		switch (difference.kind) {
+			case 'missing':
+				return `${difference.path}: missing, expected ${formatValue(difference.expected)}`;
+			case 'unexpected':
+				return `${difference.path}: unexpected ${formatValue(difference.actual)}`;
+			default:
+				return `${difference.path}: expected ${formatValue(difference.expected)}, got ${formatValue(difference.actual)}`;
+		}
+	});
+
+	if (differences.length > limit) {
+		lines.push(`... and ${differences.length - limit} more`);
+	}
+	return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined) {
+		return 'nothing';
+	}
+
+	const text = JSON.stringify(value);
+	return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+}
+
+function propertyPath(path: string, key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
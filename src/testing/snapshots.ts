@@ -0,0 +1,36 @@
+import * as path from 'path';
+import { diffJson, formatDifferences } from './jsonDiff';
+
+export const SNAPSHOT_DIRECTORY = '__snapshots__';
+
+/**
+ * Where the snapshot of a template is kept: `orders.jsonata` has `__snapshots__/orders.json` next to it
+ */
+export function getSnapshotPath(templatePath: string): string {
+	const parsed = path.parse(templatePath);
+	return path.join(parsed.dir, SNAPSHOT_DIRECTORY, `${parsed.name}.json`);
+}
+
+/**
+ * Writes the outputs of a template's expressions as snapshot text. A template with one expression
+ * is stored as its output, one with several as an array of outputs; no output is stored as `null`.
+ */
+export function formatSnapshot(outputs: unknown[]): string {
+	const value = outputs.length === 1 ? outputs[0] : outputs;
+	return `${JSON.stringify(value ?? null, null, 2)}\n`;
+}
+
+/**
+ * Describes how new snapshot text differs from a stored snapshot, or returns undefined when they match
+ */
+export function compareSnapshot(stored: string, current: string): string | undefined {
+	let snapshot: unknown;
+	try {
+		snapshot = JSON.parse(stored);
+	} catch (error) {
+		return `The snapshot is not valid JSON: ${error instanceof Error ? error.message : error}`;
+	}
+
+	const differences = diffJson(snapshot, JSON.parse(current));
+	return differences.length > 0 ? formatDifferences(differences) : undefined;
+}
@@ -0,0 +1,159 @@
+import { EvaluationOutcome } from '../playground/EvaluationRunner';
+import { diffJson, formatDifferences } from './jsonDiff';
+
+export const TEST_FILE_PATTERN = '**/*.jsonata-test.json';
+
+/**
+ * A `*.jsonata-test.json` file: a template and the output or error it should give for each input.
+ *
+ * ```json
+ * {
+ *   "template": "orders.jsonata",
+ *   "bindings": { "rate": 1.2 },
+ *   "tests": [
+ *     { "name": "sums the totals", "input": { "orders": [{ "total": 5 }] }, "expected": 6 },
+ *     { "name": "rejects text", "inputFile": "samples/text.json", "expectedError": "T2001" }
+ *   ]
+ * }
+ * ```
+ *
+ * `template` is relative to the test file; `expression` holds a template inline instead.
+ */
+export interface TemplateTestFile {
+	template?: string;
+	expression?: string;
+	/** Bindings for every case, which a case's own bindings override */
+	bindings?: Record<string, unknown>;
+	tests: TemplateTestCase[];
+}
+
+export interface TemplateTestCase {
+	name: string;
+	input?: unknown;
+	/** A JSON file with the input, relative to the test file */
+	inputFile?: string;
+	bindings?: Record<string, unknown>;
+	expected?: unknown;
+	/** The code of the error the template should fail with, e.g. `T2001` */
+	expectedError?: string;
+	/** Offset of the case in the test file text */
+	offset: number;
+}
+
+/**
+ * The result of checking an evaluation against a case
+ */
+export type TestVerdict =
+	| { passed: true }
+	| { passed: false; message: string; expected?: string; actual?: string };
+
+/**
+ * Reads a test file, throwing an error that describes what is wrong with it
+ */
+export function parseTestFile(text: string): TemplateTestFile {
+	let parsed: any;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+
+	if (!isObject(parsed)) {
+		throw new Error('A test file must be a JSON object');
+	}
+	if (typeof parsed.template !== 'string' && typeof parsed.expression !== 'string') {
+		throw new Error('A test file needs a "template" path or an "expression"');
+	}
+	if (parsed.bindings !== undefined && !isObject(parsed.bindings)) {
+		throw new Error('"bindings" must be an object of variable names to values');
+	}
+	if (!Array.isArray(parsed.tests)) {
+		throw new Error('A test file needs a "tests" array');
+	}
+
+	// Cases are found in the text in order, for the editor to show where they are
+	let searchFrom = Math.max(0, text.indexOf('"tests"'));
+	const tests = parsed.tests.map((test: any, index: number): TemplateTestCase => {
+		const name = typeof test?.name === 'string' ? test.name : `Test ${index + 1}`;
+		if (!isObject(test)) {
+			throw new Error(`${name}: a test must be an object`);
+		}
+		if (!('expected' in test) && typeof test.expectedError !== 'string') {
+			throw new Error(`${name}: a test needs "expected" or "expectedError"`);
+		}
+		if (test.inputFile !== undefined && typeof test.inputFile !== 'string') {
+			throw new Error(`${name}: "inputFile" must be a path`);
+		}
+		if (test.bindings !== undefined && !isObject(test.bindings)) {
+			throw new Error(`${name}: "bindings" must be an object of variable names to values`);
+		}
+
+		const found = typeof test.name === 'string' ? text.indexOf(JSON.stringify(test.name), searchFrom) : -1;
+		if (found >= 0) {
+			searchFrom = found;
+		}
+
+		return {
+			name,
+			input: test.input,
+			inputFile: test.inputFile,
+			bindings: test.bindings,
+			expected: test.expected,
+			expectedError: test.expectedError,
+			offset: searchFrom
+		};
+	});
+
+	return { template: parsed.template, expression: parsed.expression, bindings: parsed.bindings, tests };
+}
+
+/**
+ * Checks the outcome of evaluating a case's template against what the case expects
+ */
+export function checkOutcome(test: TemplateTestCase, outcome: EvaluationOutcome): TestVerdict {
+	switch (outcome.status) {
+		case 'timeout':
+			return { passed: false, message: `Evaluation timed out after ${outcome.timeoutMs} ms` };
+		case 'out-of-memory':
+			return { passed: false, message: `Evaluation ran out of memory (limit ${outcome.memoryLimitMb} MB)` };
+		case 'cancelled':
+			return { passed: false, message: 'Evaluation was cancelled' };
+		case 'error': {
+			const { code, message } = outcome.error;
+			if (test.expectedError !== undefined) {
+				return code === test.expectedError
+					? { passed: true }
+					: { passed: false, message: `Expected error ${test.expectedError}, got ${code ? `${code}: ` : ''}${message}` };
+			}
+			return { passed: false, message: `Evaluation failed: ${code ? `[${code}] ` : ''}${message}` };
+		}
+	}
+
+	if (test.expectedError !== undefined) {
+		return { passed: false, message: `Expected error ${test.expectedError}, got ${outcome.result ?? 'no result'}` };
+	}
+
+	const actual = outcome.result === undefined ? undefined : JSON.parse(outcome.result);
+	const differences = diffJson(test.expected, actual);
+	if (differences.length === 0) {
+		return { passed: true };
+	}
+
+	return {
+		passed: false,
+		message: formatDifferences(differences),
+		expected: JSON.stringify(test.expected, null, 2),
+		actual: outcome.result ?? 'undefined'
+	};
+}
+
+/**
+ * Merges the bindings of a file and one of its cases into the text the evaluation worker reads
+ */
+export function getTestBindings(file: TemplateTestFile, test: TemplateTestCase): string | undefined {
+	return file.bindings || test.bindings ? JSON.stringify({ ...file.bindings, ...test.bindings }) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,67 @@
+/**
+ * Compute the Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+	if (a === b) {
+		return 0;
+	}
+	if (a.length === 0) {
+		return b.length;
+	}
+	if (b.length === 0) {
+		return a.length;
+	}
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+		}
+		previous = current;
+	}
+
+	return previous[b.length];
+}
+
+/**
+ * Find the candidates closest to a (probably misspelt) name, best match first.
+ * Only candidates within roughly a third of the name's length in edits are returned.
+ */
+export function findSimilarNames(name: string, candidates: string[], maxResults: number = 3): string[] {
+	const maxDistance = Math.max(1, Math.floor(name.length / 3));
+	const lowerName = name.toLowerCase();
+
+	return candidates
+		.map(candidate => ({ candidate, distance: levenshteinDistance(lowerName, candidate.toLowerCase()) }))
+		.filter(entry => entry.distance <= maxDistance && entry.candidate !== name)
+		.sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+		.slice(0, maxResults)
+		.map(entry => entry.candidate);
+}
+
+/**
+ * Find the match of `pattern` on the line of `offset` that contains or touches it,
+ * like `TextDocument.getWordRangeAtPosition` does for a document
+ */
+export function findWordAt(text: string, offset: number, pattern: RegExp): { start: number; end: number } | undefined {
+	const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+	const lineEnd = text.indexOf('\n', offset);
+	const line = text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd);
+	const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+	let match;
+
+	while ((match = regex.exec(line)) !== null) {
+		const start = lineStart + match.index;
+		const end = start + match[0].length;
+		if (start <= offset && offset <= end && match[0].length > 0) {
+			return { start, end };
+		}
+		if (match[0].length === 0) {
+			regex.lastIndex++;
+		}
+	}
+
+	return undefined;
+}
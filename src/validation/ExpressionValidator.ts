@@ -0,0 +1,452 @@
+import * as path from 'path';
+import { AssociatedJsonFile } from './associations';
+import { extractJsonataExpressionsFromPureJsonata } from './expressionExtractor';
+import { findFunctionCallProblems } from './functionCallAnalysis';
+import { findUnresolvedPathSteps, PathResolver, UnresolvedPathStep } from './pathAnalysis';
+import { SampleDataPathResolver } from './SampleDataPathResolver';
+import { SchemaPathResolver } from './SchemaPathResolver';
+import { JsonataSyntaxError } from './syntaxErrors';
+import { expressionCache, ExpressionCache } from '../language/expressionCache';
+import { ExpressionNode } from '../language/parser';
+import { DisableDirective, findDisableDirectives, isRuleDisabled, Linter } from '../lint/Linter';
+import { LintRulesConfig } from '../lint/LintRule';
+import { findSimilarNames } from '../utils/stringUtils';
+
+export type ProblemSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * A problem found in JSONata text. Positions are zero-based, relative to the validated text,
+ * and always within a single line of it.
+ */
+export interface ValidationProblem {
+    line: number;
+    startChar: number;
+    endChar: number;
+    message: string;
+    severity: ProblemSeverity;
+    source: 'jsonata-validator' | 'jsonata-lint';
+    code?: string;
+    /** The flagged code has no effect and can be shown faded out */
+    unnecessary?: boolean;
+}
+
+/**
+ * A resolver used to check field paths, along with a label describing its source
+ */
+export interface PathCheck {
+    resolver: PathResolver<any>;
+    describe(step: UnresolvedPathStep): string;
+}
+
+export interface ValidationOptions {
+    pathChecks?: PathCheck[];
+    /** Functions the runtime registers, without the leading `$` */
+    functionAllowlist?: string[];
+    lintRules?: LintRulesConfig;
+    maxNumberOfProblems?: number;
+}
+
+/**
+ * Where an expression sits in the validated text, with what applies to all of its expressions
+ */
+interface ExpressionContext {
+    expression: string;
+    lineIndex: number;
+    startPos: number;
+    lines: string[];
+    options: ValidationOptions;
+    directives: DisableDirective[];
+}
+
+/**
+ * Gets the path checks for the schema and sample input associated with a document
+ */
+export function createPathChecks(schema?: AssociatedJsonFile, sample?: AssociatedJsonFile): PathCheck[] {
+    const checks: PathCheck[] = [];
+
+    if (schema) {
+        const schemaName = path.basename(schema.fsPath);
+        checks.push({
+            resolver: new SchemaPathResolver(schema.content),
+            describe: step => `Field '${step.name}' does not exist in schema '${schemaName}'`
+        });
+    }
+
+    if (sample) {
+        const sampleName = path.basename(sample.fsPath);
+        checks.push({
+            resolver: new SampleDataPathResolver(sample.content),
+            describe: step => `Path step '${step.name}' matches nothing in sample data '${sampleName}'`
+        });
+    }
+
+    return checks;
+}
+
+/**
+ * Validates the expressions of JSONata text: syntax errors from the jsonata compiler, field paths
+ * the associated schema or sample rules out, calls that fail at runtime and lint problems.
+ * Independent of any editor, so that the extension, the language server and the command line
+ * report the same problems.
+ */
+export class ExpressionValidator {
+    constructor(
+        private linter: Linter = new Linter(),
+        private cache: ExpressionCache = expressionCache
+    ) {}
+
+    public validate(text: string, options: ValidationOptions = {}): ValidationProblem[] {
+        const problems: ValidationProblem[] = [];
+        const maxProblems = options.maxNumberOfProblems ?? 100;
+        const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+        const directives = findDisableDirectives(text);
+
+        for (const expression of extractJsonataExpressionsFromPureJsonata(text)) {
+            if (problems.length >= maxProblems) {
+                break;
+            }
+
+            problems.push(...this.validateExpression({
+                expression: expression.expression,
+                lineIndex: expression.line,
+                startPos: expression.startPos,
+                lines,
+                options,
+                directives
+            }));
+        }
+
+        return problems.slice(0, maxProblems);
+    }
+
+    /**
+     * Validate a single JSONata expression
+     */
+    private validateExpression(context: ExpressionContext): ValidationProblem[] {
+        const { expression } = context;
+        const problems: ValidationProblem[] = [];
+
+        if (!expression.trim()) {
+            return problems;
+        }
+
+        // Report every syntax error recovery mode finds, rather than one per fix
+        const syntaxErrors = this.cache.getSyntaxErrors(expression);
+        if (syntaxErrors.length > 0) {
+            return syntaxErrors.map(error => this.createProblemFromJsonataError(error, context));
+        }
+
+        // Check field paths against the data the template is written for
+        const jsonataAst = this.cache.getJsonataAst(expression);
+        for (const check of context.options.pathChecks ?? []) {
+            problems.push(...this.createPathProblems(jsonataAst, check, context));
+        }
+
+        // Undefined if our parser rejects what jsonata accepted, leaving nothing useful to report
+        const ast = this.cache.parse(expression)?.ast;
+        if (ast) {
+            // Calls that compile but fail at runtime
+            problems.push(...this.createFunctionCallProblems(ast, context));
+            problems.push(...this.createLintProblems(ast, context));
+        }
+
+        return problems;
+    }
+
+    /**
+     * Create warnings for the field paths of a compiled expression that cannot be resolved
+     */
+    private createPathProblems(ast: any, check: PathCheck, context: ExpressionContext): ValidationProblem[] {
+        return findUnresolvedPathSteps(ast, context.expression, check.resolver).map(step => {
+            let message = check.describe(step);
+            const suggestions = findSimilarNames(step.name, step.available);
+            if (suggestions.length > 0) {
+                message += `. Did you mean ${suggestions.map(name => `'${name}'`).join(', ')}?`;
+            }
+
+            return {
+                ...this.locate(context, step.start, step.end),
+                message,
+                severity: 'warning',
+                source: 'jsonata-validator',
+                code: 'unresolved-path'
+            };
+        });
+    }
+
+    /**
+     * Create problems for calls to unknown functions and calls with the wrong number of arguments
+     */
+    private createFunctionCallProblems(ast: ExpressionNode, context: ExpressionContext): ValidationProblem[] {
+        return findFunctionCallProblems(ast, context.options.functionAllowlist).map(problem => ({
+            ...this.locate(context, problem.start, problem.end),
+            message: problem.message,
+            severity: problem.fatal ? 'error' : 'warning',
+            source: 'jsonata-validator',
+            code: problem.kind
+        }));
+    }
+
+    /**
+     * Create problems for the lint rules that are switched on, leaving out those silenced
+     * by a `jsonata-disable` comment
+     */
+    private createLintProblems(ast: ExpressionNode, context: ExpressionContext): ValidationProblem[] {
+        const problems: ValidationProblem[] = [];
+
+        for (const result of this.linter.lint(context.expression, ast, context.options.lintRules)) {
+            const location = this.locate(context, result.start, result.end);
+            if (isRuleDisabled(context.directives, result.ruleId, location.line)) {
+                continue;
+            }
+
+            problems.push({
+                ...location,
+                message: result.message,
+                severity: result.severity,
+                source: 'jsonata-lint',
+                code: result.ruleId,
+                unnecessary: result.unnecessary
+            });
+        }
+
+        return problems;
+    }
+
+    /**
+     * Create a problem from JSONata error information
+     */
+    private createProblemFromJsonataError(error: JsonataSyntaxError, context: ExpressionContext): ValidationProblem {
+        const { expression } = context;
+        // JSONata error structure: { code, position, token, value, message, stack }
+        let message = error.message || 'JSONata syntax error';
+
+        // Calculate the exact position within the text
+        const errorLocation = this.calculateErrorLocation(
+            expression,
+            error.position,
+            error.token,
+            context.lineIndex,
+            context.startPos
+        );
+
+        // Enhance error message with JSONata error details
+        if (error.code) {
+            message = `[${error.code}] ${message}`;
+        }
+
+        if (error.token && error.value && error.token !== error.value && error.value !== 'undefined') {
+            message += ` (expected '${error.value}', got '${error.token}')`;
+        }
+
+        return {
+            ...this.clamp(context.lines, errorLocation.line, errorLocation.startChar, errorLocation.endChar),
+            message,
+            severity: 'error',
+            source: 'jsonata-validator',
+            // Add error code if available
+            code: error.code || undefined
+        };
+    }
+
+    /**
+     * Convert a start/end offset within an expression to a location in the text
+     */
+    private locate(context: ExpressionContext, start: number, end: number): { line: number; startChar: number; endChar: number } {
+        const precedingLines = context.expression.substring(0, start).split('\n');
+        const lineInExpression = precedingLines.length - 1;
+        const charInLine = precedingLines[lineInExpression].length;
+        const lineStartChar = lineInExpression === 0 ? context.startPos : 0;
+
+        return this.clamp(
+            context.lines,
+            context.lineIndex + lineInExpression,
+            lineStartChar + charInLine,
+            lineStartChar + charInLine + (end - start)
+        );
+    }
+
+    /**
+     * Calculate the exact error location within multi-line expressions
+     */
+    private calculateErrorLocation(
+        expression: string,
+        errorPosition: number | undefined,
+        errorToken: string | undefined,
+        startLineIndex: number,
+        expressionStartPos: number
+    ): { line: number; startChar: number; endChar: number } {
+        if (typeof errorPosition !== 'number' || errorPosition < 0) {
+            // Fallback: highlight the entire expression
+            return {
+                line: startLineIndex,
+                startChar: expressionStartPos,
+                endChar: expressionStartPos + (expression.split('\n')[0]?.length || 0)
+            };
+        }
+
+        // Split expression into lines to find which line contains the error
+        const expressionLines = expression.split('\n');
+        let currentPosition = 0;
+        let targetLine = startLineIndex;
+        let targetStartChar = expressionStartPos;
+        let targetEndChar = expressionStartPos + 1;
+
+        // Find the line containing the error position
+        for (let i = 0; i < expressionLines.length; i++) {
+            const lineLength = expressionLines[i].length;
+
+            // Check if error position is within this line
+            if (errorPosition <= currentPosition + lineLength) {
+                targetLine = startLineIndex + i;
+
+                // Calculate character position within the line
+                const charPositionInLine = errorPosition - currentPosition;
+
+                if (i === 0) {
+                    // First line: add expression start position
+                    targetStartChar = expressionStartPos + charPositionInLine;
+                } else {
+                    // Subsequent lines: position is relative to line start
+                    targetStartChar = charPositionInLine;
+                }
+
+                // Special handling for specific error patterns
+                const adjustedPosition = this.adjustErrorPositionForCommonPatterns(
+                    errorToken,
+                    expressionLines,
+                    i
+                );
+
+                if (adjustedPosition) {
+                    targetLine = startLineIndex + adjustedPosition.lineIndex;
+                    // For the first line of the expression, we need to add the expression start position
+                    if (adjustedPosition.lineIndex === 0) {
+                        targetStartChar = expressionStartPos + adjustedPosition.startChar;
+                        targetEndChar = expressionStartPos + adjustedPosition.endChar;
+                    } else {
+                        targetStartChar = adjustedPosition.startChar;
+                        targetEndChar = adjustedPosition.endChar;
+                    }
+                } else {
+                    // Calculate end position based on token
+                    if (errorToken && errorToken !== '(end)') {
+                        targetEndChar = targetStartChar + errorToken.length;
+                    } else if (errorToken === '(end)') {
+                        // For end-of-expression errors
+                        if (charPositionInLine >= lineLength) {
+                            // Error is at the end of line
+                            if (lineLength === 0) {
+                                // Empty line
+                                targetStartChar = 0;
+                                targetEndChar = 0;
+                            } else {
+                                // Position at the last character of the line
+                                targetStartChar = lineLength - 1;
+                                targetEndChar = lineLength;
+                            }
+                        } else {
+                            targetEndChar = targetStartChar + 1;
+                        }
+                    } else {
+                        targetEndChar = targetStartChar + 1;
+                    }
+                }
+
+                break;
+            }
+
+            // Move to next line (add 1 for the newline character)
+            currentPosition += lineLength + 1;
+        }
+
+        // Handle case where error position is beyond the expression
+        if (errorPosition >= expression.length) {
+            const lastLineIndex = expressionLines.length - 1;
+            const lastLine = expressionLines[lastLineIndex] || '';
+
+            targetLine = startLineIndex + lastLineIndex;
+
+            if (lastLineIndex === 0) {
+                // Single line expression
+                if (lastLine.length === 0) {
+                    targetStartChar = expressionStartPos;
+                    targetEndChar = expressionStartPos;
+                } else {
+                    targetStartChar = expressionStartPos + lastLine.length - 1;
+                    targetEndChar = expressionStartPos + lastLine.length;
+                }
+            } else {
+                // Multi-line expression
+                if (lastLine.length === 0) {
+                    targetStartChar = 0;
+                    targetEndChar = 0;
+                } else {
+                    targetStartChar = lastLine.length - 1;
+                    targetEndChar = lastLine.length;
+                }
+            }
+        }
+
+        return {
+            line: targetLine,
+            startChar: Math.max(0, targetStartChar),
+            endChar: Math.max(targetStartChar, targetEndChar)
+        };
+    }
+
+    /**
+     * Adjust error position for common error patterns
+     */
+    private adjustErrorPositionForCommonPatterns(
+        errorToken: string | undefined,
+        expressionLines: string[],
+        currentLineIndex: number
+    ): { lineIndex: number; startChar: number; endChar: number } | null {
+
+        // "}" or "]" cannot be used as a unary operator - likely a trailing comma in an object or array
+        if ((errorToken === '}' || errorToken === ']') && currentLineIndex > 0) {
+            const currentLine = expressionLines[currentLineIndex];
+            const previousLine = expressionLines[currentLineIndex - 1];
+
+            // Check if current line is just whitespace + the bracket and previous line ends with ","
+            if (currentLine.trim() === errorToken && previousLine.trim().endsWith(',')) {
+                // Highlight the trailing comma on the previous line
+                const commaPosition = previousLine.lastIndexOf(',');
+                if (commaPosition >= 0) {
+                    return {
+                        lineIndex: currentLineIndex - 1,
+                        startChar: commaPosition,
+                        endChar: commaPosition + 1
+                    };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Keep a location within the lines of the text
+     */
+    private clamp(lines: string[], lineIndex: number, startPos: number, endPos: number): { line: number; startChar: number; endChar: number } {
+        const line = Math.max(0, Math.min(lineIndex, lines.length - 1));
+        const lineLength = lines[line].length;
+
+        // Clamp positions to valid ranges
+        let startChar = Math.max(0, Math.min(startPos, lineLength));
+        let endChar = Math.max(startChar, Math.min(endPos, lineLength));
+
+        if (startChar >= lineLength && lineLength > 0) {
+            // Error is beyond the line content, position at the last character
+            startChar = lineLength - 1;
+            endChar = lineLength;
+        } else if (startChar >= lineLength && lineLength === 0) {
+            // Empty line case
+            startChar = 0;
+            endChar = 0;
+        }
+
+        return { line, startChar, endChar };
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { AssociatedJsonFile, AssociationDocument, AssociationTag, findAssociatedFile, findSiblingSampleFile, JsonFileCache } from './associations';
+
+/**
+ * Resolves the JSON files (a JSON Schema, a sample payload) that describe the input of a JSONata document.
+ *
+ * An association comes either from a header comment in the document, e.g.
+ * `/* @schema ./schemas/order.schema.json *\/`, resolved relative to the document,
+ * or from a glob map in the settings, resolved relative to the workspace folder.
+ * The header comment wins when both are present. The language server resolves them the same way.
+ */
+export class FileAssociations {
+    private jsonFiles = new JsonFileCache();
+
+    /**
+     * Gets the JSON Schema bound to a document, if any
+     */
+    public getSchema(document: vscode.TextDocument): AssociatedJsonFile | undefined {
+        const fsPath = this.findAssociation(document, 'schema', 'schemaAssociations');
+        return fsPath ? this.jsonFiles.load(fsPath) : undefined;
+    }
+
+    /**
+     * Gets the sample input bound to a document, if any.
+     * Besides the header comment and settings, a sibling `<name>.sample.json` file is picked up.
+     */
+    public getSampleData(document: vscode.TextDocument): AssociatedJsonFile | undefined {
+        const associationDocument = this.toAssociationDocument(document);
+        const fsPath = this.findAssociation(document, 'sample', 'sampleDataAssociations') ??
+            (associationDocument.fsPath ? findSiblingSampleFile(associationDocument.fsPath) : undefined);
+        return fsPath ? this.jsonFiles.load(fsPath) : undefined;
+    }
+
+    /**
+     * Looks up the header comment, then the `{ "<glob>": "<path>" }` setting, for a document
+     */
+    private findAssociation(document: vscode.TextDocument, tag: AssociationTag, settingName: string): string | undefined {
+        const associations = vscode.workspace.getConfiguration('jsonataValidator', document.uri)
+            .get<Record<string, string>>(settingName, {});
+        return findAssociatedFile(this.toAssociationDocument(document), tag, associations);
+    }
+
+    private toAssociationDocument(document: vscode.TextDocument): AssociationDocument {
+        const onDisk = !document.isUntitled && document.uri.scheme === 'file';
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+        return {
+            text: document.getText(),
+            fsPath: onDisk ? document.uri.fsPath : undefined,
+            workspaceFolder: workspaceFolder?.uri.fsPath
+        };
+    }
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+    '.jsonata': 'jsonata',
+    '.json': 'json',
+    '.jsonc': 'jsonc',
+    '.yaml': 'yaml',
+    '.yml': 'yaml',
+    '.js': 'javascript',
+    '.cjs': 'javascript',
+    '.mjs': 'javascript',
+    '.jsx': 'javascriptreact',
+    '.ts': 'typescript',
+    '.cts': 'typescript',
+    '.mts': 'typescript',
+    '.tsx': 'typescriptreact'
+};
+
+/**
+ * A read-only snapshot of a file that is not open in the editor, for validating it in the background.
+ * Opening the file with `openTextDocument` instead would fire open and close events and hand it to
+ * the language server, as if the user had opened it.
+ */
+export class FileDocument implements vscode.TextDocument {
+    public readonly isUntitled = false;
+    public readonly encoding = 'utf8';
+    public readonly version = 0;
+    public readonly isDirty = false;
+    public readonly isClosed = true;
+    public readonly eol: vscode.EndOfLine;
+    private content: TextDocument;
+
+    constructor(public readonly uri: vscode.Uri, public readonly languageId: string, text: string) {
+        this.content = TextDocument.create(uri.toString(), languageId, 0, text);
+        this.eol = text.includes('\r\n') ? vscode.EndOfLine.CRLF : vscode.EndOfLine.LF;
+    }
+
+    /**
+     * Reads a file, or returns undefined when it cannot be read or is not in a language that holds JSONata
+     */
+    public static async read(uri: vscode.Uri): Promise<FileDocument | undefined> {
+        const languageId = LANGUAGES_BY_EXTENSION[path.extname(uri.path).toLowerCase()];
+        if (!languageId) {
+            return undefined;
+        }
+
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return new FileDocument(uri, languageId, new TextDecoder().decode(bytes));
+        } catch {
+            return undefined;
+        }
+    }
+
+    public get fileName(): string {
+        return this.uri.fsPath;
+    }
+
+    public get lineCount(): number {
+        return this.content.lineCount;
+    }
+
+    public save(): Thenable<boolean> {
+        return Promise.resolve(false);
+    }
+
+    public lineAt(lineOrPosition: number | vscode.Position): vscode.TextLine {
+        const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+        if (lineNumber < 0 || lineNumber >= this.lineCount) {
+            throw new Error(`Illegal value for line: ${lineNumber}`);
+        }
+
+        const start = this.content.offsetAt({ line: lineNumber, character: 0 });
+        const next = lineNumber + 1 < this.lineCount ? this.content.offsetAt({ line: lineNumber + 1, character: 0 }) : this.getText().length;
+        const withLineBreak = this.getText().substring(start, next);
+        const text = withLineBreak.replace(/\r?\n$/, '');
+        const firstNonWhitespace = text.search(/\S/);
+
+        return {
+            lineNumber,
+            text,
+            range: new vscode.Range(lineNumber, 0, lineNumber, text.length),
+            rangeIncludingLineBreak: new vscode.Range(this.positionAt(start), this.positionAt(next)),
+            firstNonWhitespaceCharacterIndex: firstNonWhitespace < 0 ? text.length : firstNonWhitespace,
+            isEmptyOrWhitespace: firstNonWhitespace < 0
+        };
+    }
+
+    public offsetAt(position: vscode.Position): number {
+        return this.content.offsetAt(position);
+    }
+
+    public positionAt(offset: number): vscode.Position {
+        const { line, character } = this.content.positionAt(offset);
+        return new vscode.Position(line, character);
+    }
+
+    public getText(range?: vscode.Range): string {
+        return this.content.getText(range);
+    }
+
+    public getWordRangeAtPosition(position: vscode.Position, regex: RegExp = /[\w$]+/g): vscode.Range | undefined {
+        const line = this.lineAt(position.line).text;
+        const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+
+        for (const match of line.matchAll(pattern)) {
+            const start = match.index ?? 0;
+            if (start <= position.character && position.character <= start + match[0].length && match[0].length > 0) {
+                return new vscode.Range(position.line, start, position.line, start + match[0].length);
+            }
+        }
+        return undefined;
+    }
+
+    public validateRange(range: vscode.Range): vscode.Range {
+        return new vscode.Range(this.validatePosition(range.start), this.validatePosition(range.end));
+    }
+
+    public validatePosition(position: vscode.Position): vscode.Position {
+        return this.positionAt(this.offsetAt(position));
+    }
+}
@@ -0,0 +1,80 @@
+import { PathResolver } from './pathAnalysis';
+
+/**
+ * The sample values a path can reach, with arrays already flattened
+ */
+type SampleContext = any[];
+
+/**
+ * Resolves JSONata path steps against a sample input payload.
+ *
+ * A field is reported as unresolved when none of the objects reachable at that point of
+ * the sample contains it. Positions the sample has no objects for (empty arrays, nulls)
+ * are not checked, since the sample says nothing about them.
+ */
+export class SampleDataPathResolver implements PathResolver<SampleContext> {
+    constructor(private sample: any) {}
+
+    public root(): SampleContext | null {
+        return this.flatten([this.sample]);
+    }
+
+    public child(context: SampleContext, name: string): SampleContext | null | undefined {
+        const objects = context.filter(value => this.isObject(value));
+        if (objects.length === 0) {
+            // Selecting a field of a scalar never matches, but an empty context tells us nothing
+            return context.length > 0 ? undefined : null;
+        }
+
+        const matches = objects
+            .filter(value => Object.prototype.hasOwnProperty.call(value, name))
+            .map(value => value[name]);
+        if (matches.length === 0) {
+            return undefined;
+        }
+
+        const flattened = this.flatten(matches);
+        return flattened.length > 0 ? flattened : null;
+    }
+
+    public wildcard(context: SampleContext): SampleContext | null {
+        const values: any[] = [];
+        for (const value of context) {
+            if (this.isObject(value)) {
+                values.push(...Object.values(value));
+            }
+        }
+
+        const flattened = this.flatten(values);
+        return flattened.length > 0 ? flattened : null;
+    }
+
+    public keys(context: SampleContext): string[] {
+        const keys = new Set<string>();
+        for (const value of context) {
+            if (this.isObject(value)) {
+                Object.keys(value).forEach(key => keys.add(key));
+            }
+        }
+        return Array.from(keys).sort();
+    }
+
+    private isObject(value: any): boolean {
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    /**
+     * Flattens nested arrays the same way JSONata maps path steps over array items
+     */
+    private flatten(values: any[]): SampleContext {
+        const result: any[] = [];
+        for (const value of values) {
+            if (Array.isArray(value)) {
+                result.push(...this.flatten(value));
+            } else if (value !== null && value !== undefined) {
+                result.push(value);
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,159 @@
+import { PathResolver } from './pathAnalysis';
+
+/**
+ * The set of schema nodes a value at some position in a path could be described by
+ */
+type SchemaContext = any[];
+
+/**
+ * Resolves JSONata path steps against a JSON Schema.
+ *
+ * Objects that declare `properties` are treated as closed unless `additionalProperties`
+ * or `patternProperties` say otherwise, so that misspelt field names are reported.
+ * Arrays are looked through, matching JSONata's implicit mapping over array items.
+ */
+export class SchemaPathResolver implements PathResolver<SchemaContext> {
+    private static readonly MAX_REF_DEPTH = 32;
+
+    constructor(private schema: any) {}
+
+    public root(): SchemaContext | null {
+        return this.expand(this.schema);
+    }
+
+    public child(context: SchemaContext, name: string): SchemaContext | null | undefined {
+        const matches: any[] = [];
+
+        for (const node of context) {
+            if (this.isOpen(node)) {
+                return null;
+            }
+
+            if (node.properties && Object.prototype.hasOwnProperty.call(node.properties, name)) {
+                matches.push(node.properties[name]);
+            }
+        }
+
+        if (matches.length === 0) {
+            return undefined;
+        }
+
+        const expanded = this.expandAll(matches);
+        return expanded.length > 0 ? expanded : null;
+    }
+
+    public wildcard(context: SchemaContext): SchemaContext | null {
+        const values: any[] = [];
+
+        for (const node of context) {
+            if (this.isOpen(node) || (node.additionalProperties && typeof node.additionalProperties === 'object')) {
+                return null;
+            }
+            if (node.properties) {
+                values.push(...Object.values(node.properties));
+            }
+        }
+
+        const expanded = this.expandAll(values);
+        return expanded.length > 0 ? expanded : null;
+    }
+
+    public keys(context: SchemaContext): string[] {
+        const keys = new Set<string>();
+        for (const node of context) {
+            Object.keys(node.properties || {}).forEach(key => keys.add(key));
+        }
+        return Array.from(keys).sort();
+    }
+
+    /**
+     * Whether a schema node allows fields we know nothing about
+     */
+    private isOpen(node: any): boolean {
+        if (node === true || node === undefined || node === null || typeof node !== 'object') {
+            return true;
+        }
+
+        if (node.patternProperties || node.additionalProperties === true ||
+            (node.additionalProperties && typeof node.additionalProperties === 'object')) {
+            return true;
+        }
+
+        // An object (or untyped) node without properties says nothing about its fields
+        const types: string[] = Array.isArray(node.type) ? node.type : [node.type];
+        return !node.properties && (node.type === undefined || types.includes('object'));
+    }
+
+    private expandAll(nodes: any[]): SchemaContext {
+        const result: any[] = [];
+        for (const node of nodes) {
+            result.push(...this.expand(node));
+        }
+        return result;
+    }
+
+    /**
+     * Flattens references, combinators and array items into the object-level schema nodes
+     */
+    private expand(node: any, depth: number = 0): SchemaContext {
+        if (depth > SchemaPathResolver.MAX_REF_DEPTH) {
+            return [true];
+        }
+
+        if (node === true || node === false || !node || typeof node !== 'object') {
+            return [true];
+        }
+
+        if (typeof node.$ref === 'string') {
+            const target = this.resolveReference(node.$ref);
+            return target === undefined ? [true] : this.expand(target, depth + 1);
+        }
+
+        const combined = [...(node.allOf || []), ...(node.anyOf || []), ...(node.oneOf || [])];
+        if (combined.length > 0 && !node.properties) {
+            const result: any[] = [];
+            for (const option of combined) {
+                result.push(...this.expand(option, depth + 1));
+            }
+            return result;
+        }
+
+        const types: string[] = Array.isArray(node.type) ? node.type : [node.type];
+        if (types.includes('array')) {
+            const items = node.prefixItems || node.items;
+            if (!items) {
+                return [true];
+            }
+            const itemSchemas = Array.isArray(items) ? items : [items];
+            const result: any[] = [];
+            for (const item of itemSchemas) {
+                result.push(...this.expand(item, depth + 1));
+            }
+            return result;
+        }
+
+        return [node];
+    }
+
+    /**
+     * Resolves a local JSON pointer reference such as `#/definitions/address`
+     */
+    private resolveReference(reference: string): any {
+        if (!reference.startsWith('#')) {
+            return undefined;
+        }
+
+        const segments = reference.substring(1).split('/').filter(segment => segment.length > 0);
+        let target = this.schema;
+
+        for (const segment of segments) {
+            const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+            if (!target || typeof target !== 'object' || !(key in target)) {
+                return undefined;
+            }
+            target = target[key];
+        }
+
+        return target;
+    }
+}
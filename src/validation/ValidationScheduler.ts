@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+
+interface PendingValidation {
+    version: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Debounces validation per document. Each change restarts the document's timer, and a run whose
+ * document has changed again by the time it fires, or has been closed, is dropped.
+ */
+export class ValidationScheduler implements vscode.Disposable {
+    private pending = new Map<string, PendingValidation>();
+
+    constructor(
+        private validate: (document: vscode.TextDocument) => void,
+        private delayMs: number = 500
+    ) {}
+
+    /**
+     * Validates a document once it has not changed for the delay
+     */
+    public schedule(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        this.cancel(document.uri);
+
+        const version = document.version;
+        this.pending.set(key, {
+            version,
+            timer: setTimeout(() => {
+                this.pending.delete(key);
+                if (!document.isClosed && document.version === version) {
+                    this.validate(document);
+                }
+            }, this.delayMs)
+        });
+    }
+
+    /**
+     * Validates a document now, instead of any scheduled run
+     */
+    public validateNow(document: vscode.TextDocument): void {
+        this.cancel(document.uri);
+        this.validate(document);
+    }
+
+    public cancel(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pending.get(key);
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pending.delete(key);
+        }
+    }
+
+    public dispose(): void {
+        this.pending.forEach(pending => clearTimeout(pending.timer));
+        this.pending.clear();
+    }
+}
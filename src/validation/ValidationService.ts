@@ -1,12 +1,27 @@
 import * as vscode from 'vscode';
-import jsonata from 'jsonata';
-import { extractJsonataExpressionsFromPureJsonata } from './expressionExtractor';
+import { DEFAULT_EMBEDDING_RULES, EmbeddingRules, findEmbeddedExpressions, getEmbeddingLanguage, toDocumentOffset } from './embeddedExpressions';
+import { createPathChecks, ExpressionValidator, ProblemSeverity, ValidationProblem } from './ExpressionValidator';
+import { FileAssociations } from './FileAssociations';
+import { LintConfigLoader } from '../lint/LintConfigLoader';
+import { LintRulesConfig } from '../lint/LintRule';
+
+const SEVERITIES: Record<ProblemSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
 
 /**
  * Validation service for JSONata expressions
  */
 export class ValidationService {
-    constructor(private diagnosticCollection: vscode.DiagnosticCollection) {}
+    constructor(
+        private diagnosticCollection: vscode.DiagnosticCollection,
+        private fileAssociations: FileAssociations = new FileAssociations(),
+        private validator: ExpressionValidator = new ExpressionValidator(),
+        private lintConfigLoader: LintConfigLoader = new LintConfigLoader(message => void vscode.window.showWarningMessage(message))
+    ) {}
 
     /**
      * Check if a document is a JSONata file
@@ -19,16 +34,19 @@ export class ValidationService {
      * Validate an entire document
      */
     public validateDocument(document: vscode.TextDocument): void {
-        // Only validate .jsonata files
+        this.diagnosticCollection.set(document.uri, this.getDiagnostics(document));
+    }
+
+    /**
+     * Get the diagnostics of an entire document without publishing them
+     */
+    public getDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
         if (!this.isJsonataFile(document)) {
-            // Clear any existing diagnostics for non-jsonata files
-            this.diagnosticCollection.set(document.uri, []);
-            return;
+            // Expressions embedded in JSON, YAML and script files, or nothing for other files
+            return this.validateEmbeddedExpressions(document);
         }
 
-        const text = document.getText();
-        const diagnostics = this.validateJsonataText(text, document);
-        this.diagnosticCollection.set(document.uri, diagnostics);
+        return this.validateJsonataText(document.getText(), document);
     }
 
     /**
@@ -43,11 +61,11 @@ export class ValidationService {
 
         const diagnostics = this.validateJsonataText(selectedText, document, selection.start);
 
-        // Show results in a message
-        if (diagnostics.length === 0) {
+        // Show results in a message, path warnings do not make a selection invalid
+        const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error).length;
+        if (errorCount === 0) {
             vscode.window.showInformationMessage('✓ JSONata selection is valid');
         } else {
-            const errorCount = diagnostics.length;
             vscode.window.showErrorMessage(`✗ JSONata selection has ${errorCount} error${errorCount > 1 ? 's' : ''}`);
         }
     }
@@ -56,380 +74,108 @@ export class ValidationService {
      * Validate JSONata text and return diagnostics
      */
     private validateJsonataText(text: string, document: vscode.TextDocument, offset?: vscode.Position): vscode.Diagnostic[] {
-        const diagnostics: vscode.Diagnostic[] = [];
-        const config = vscode.workspace.getConfiguration('jsonataValidator');
-        const maxProblems = config.get<number>('maxNumberOfProblems', 100);
-
         // Only validate JSONata files
         if (!this.isJsonataFile(document)) {
-            return diagnostics;
-        }
-
-        // For JSONata files, validate the entire content as JSONata expressions
-        const expressions = extractJsonataExpressionsFromPureJsonata(text);
-
-        for (const expression of expressions) {
-            if (diagnostics.length >= maxProblems) {
-                break;
-            }
-
-            const expressionDiagnostics = this.validateSingleJsonataExpression(
-                expression.expression,
-                document,
-                expression.line,
-                expression.startPos,
-                expression.endPos,
-                offset
-            );
-            diagnostics.push(...expressionDiagnostics);
-        }
-
-        return diagnostics;
-    }
-
-    /**
-     * Validate a single JSONata expression and return diagnostics
-     */
-    private validateSingleJsonataExpression(
-        expression: string,
-        document: vscode.TextDocument,
-        lineIndex: number,
-        startPos: number,
-        endPos: number,
-        offset?: vscode.Position
-    ): vscode.Diagnostic[] {
-        const diagnostics: vscode.Diagnostic[] = [];
-
-        if (!expression.trim()) {
-            return diagnostics;
-        }
-
-        try {
-            // Attempt to compile the JSONata expression
-            jsonata(expression);
-        } catch (error: any) {
-            // JSONata provides detailed error information
-            const diagnostic = this.createDiagnosticFromJsonataError(
-                error,
-                expression,
-                document,
-                lineIndex,
-                startPos,
-                endPos,
-                offset
-            );
-
-            if (diagnostic) {
-                diagnostics.push(diagnostic);
-            }
-        }
-
-        return diagnostics;
-    }
-
-    /**
-     * Create a diagnostic from JSONata error information
-     */
-    private createDiagnosticFromJsonataError(
-        error: any,
-        expression: string,
-        document: vscode.TextDocument,
-        lineIndex: number,
-        expressionStartPos: number,
-        expressionEndPos: number,
-        offset?: vscode.Position
-    ): vscode.Diagnostic | null {
-        // JSONata error structure: { code, position, token, value, message, stack }
-        let message = error.message || 'JSONata syntax error';
-
-        // Calculate the exact position within the document
-        const errorLocation = this.calculateErrorLocation(
-            expression,
-            error.position,
-            error.token,
-            lineIndex,
-            expressionStartPos,
-            document
-        );
-
-        // Enhance error message with JSONata error details
-        if (error.code) {
-            message = `[${error.code}] ${message}`;
-        }
-
-        if (error.token && error.value && error.token !== error.value && error.value !== 'undefined') {
-            message += ` (expected '${error.value}', got '${error.token}')`;
-        }
-
-        const range = this.calculateErrorRange(
-            document,
-            errorLocation.line,
-            errorLocation.startChar,
-            errorLocation.endChar,
-            offset
-        );
-
-        const diagnostic = new vscode.Diagnostic(
-            range,
-            message,
-            vscode.DiagnosticSeverity.Error
-        );
-
-        diagnostic.source = 'jsonata-validator';
-
-        // Add error code if available
-        if (error.code) {
-            diagnostic.code = error.code;
+            return [];
         }
 
-        return diagnostic;
+        const config = vscode.workspace.getConfiguration('jsonataValidator');
+        const problems = this.validator.validate(text, {
+            pathChecks: createPathChecks(this.fileAssociations.getSchema(document), this.fileAssociations.getSampleData(document)),
+            functionAllowlist: config.get<string[]>('functionAllowlist', [])
+                .map(name => name.startsWith('$') ? name.substring(1) : name),
+            lintRules: this.getLintRules(document),
+            maxNumberOfProblems: config.get<number>('maxNumberOfProblems', 100)
+        });
+
+        return problems.map(problem => this.createDiagnostic(problem, offset));
     }
 
     /**
-     * Calculate the exact error location within multi-line expressions
+     * Validate the expressions the `embedded` settings find in a JSON, YAML, JavaScript or TypeScript document.
+     * Schema and sample associations apply to `.jsonata` files only.
      */
-    private calculateErrorLocation(
-        expression: string,
-        errorPosition: number,
-        errorToken: string,
-        startLineIndex: number,
-        expressionStartPos: number,
-        document: vscode.TextDocument
-    ): { line: number; startChar: number; endChar: number } {
-        if (typeof errorPosition !== 'number' || errorPosition < 0) {
-            // Fallback: highlight the entire expression
-            return {
-                line: startLineIndex,
-                startChar: expressionStartPos,
-                endChar: expressionStartPos + (expression.split('\n')[0]?.length || 0)
-            };
+    private validateEmbeddedExpressions(document: vscode.TextDocument): vscode.Diagnostic[] {
+        const language = getEmbeddingLanguage(document.languageId);
+        if (!language) {
+            return [];
         }
 
-        // Split expression into lines to find which line contains the error
-        const expressionLines = expression.split('\n');
-        let currentPosition = 0;
-        let targetLine = startLineIndex;
-        let targetStartChar = expressionStartPos;
-        let targetEndChar = expressionStartPos + 1;
-
-        // Find the line containing the error position
-        for (let i = 0; i < expressionLines.length; i++) {
-            const lineLength = expressionLines[i].length;
-
-            // Check if error position is within this line
-            if (errorPosition <= currentPosition + lineLength) {
-                targetLine = startLineIndex + i;
-
-                // Calculate character position within the line
-                const charPositionInLine = errorPosition - currentPosition;
-
-                if (i === 0) {
-                    // First line: add expression start position
-                    targetStartChar = expressionStartPos + charPositionInLine;
-                } else {
-                    // Subsequent lines: position is relative to line start
-                    targetStartChar = charPositionInLine;
-                }
-
-                // Special handling for specific error patterns
-                const adjustedPosition = this.adjustErrorPositionForCommonPatterns(
-                    expression,
-                    errorPosition,
-                    errorToken,
-                    expressionLines,
-                    i,
-                    charPositionInLine
-                );
-
-                if (adjustedPosition) {
-                    targetLine = startLineIndex + adjustedPosition.lineIndex;
-                    // For the first line of the expression, we need to add the expression start position
-                    if (adjustedPosition.lineIndex === 0) {
-                        targetStartChar = expressionStartPos + adjustedPosition.startChar;
-                        targetEndChar = expressionStartPos + adjustedPosition.endChar;
-                    } else {
-                        targetStartChar = adjustedPosition.startChar;
-                        targetEndChar = adjustedPosition.endChar;
-                    }
-                } else {
-                    // Calculate end position based on token
-                    if (errorToken && errorToken !== '(end)') {
-                        targetEndChar = targetStartChar + errorToken.length;
-                    } else if (errorToken === '(end)') {
-                        // For end-of-expression errors
-                        if (charPositionInLine >= lineLength) {
-                            // Error is at the end of line
-                            if (lineLength === 0) {
-                                // Empty line
-                                targetStartChar = 0;
-                                targetEndChar = 0;
-                            } else {
-                                // Position at the last character of the line
-                                targetStartChar = lineLength - 1;
-                                targetEndChar = lineLength;
-                            }
-                        } else {
-                            targetEndChar = targetStartChar + 1;
-                        }
-                    } else {
-                        targetEndChar = targetStartChar + 1;
-                    }
-                }
+        const config = vscode.workspace.getConfiguration('jsonataValidator', document.uri);
+        const rules: EmbeddingRules = {
+            json: config.get<string[]>('embedded.json', DEFAULT_EMBEDDING_RULES.json),
+            yaml: config.get<string[]>('embedded.yaml', DEFAULT_EMBEDDING_RULES.yaml),
+            calls: config.get<string[]>('embedded.calls', DEFAULT_EMBEDDING_RULES.calls)
+        };
+        const functionAllowlist = config.get<string[]>('functionAllowlist', [])
+            .map(name => name.startsWith('$') ? name.substring(1) : name);
+        const lintRules = this.getLintRules(document);
+        const maxNumberOfProblems = config.get<number>('maxNumberOfProblems', 100);
+        const diagnostics: vscode.Diagnostic[] = [];
 
+        for (const expression of findEmbeddedExpressions(document.getText(), language, rules)) {
+            if (diagnostics.length >= maxNumberOfProblems) {
                 break;
             }
 
-            // Move to next line (add 1 for the newline character)
-            currentPosition += lineLength + 1;
-        }
-
-        // Handle case where error position is beyond the expression
-        if (errorPosition >= expression.length) {
-            const lastLineIndex = expressionLines.length - 1;
-            const lastLine = expressionLines[lastLineIndex] || '';
-
-            targetLine = startLineIndex + lastLineIndex;
-
-            if (lastLineIndex === 0) {
-                // Single line expression
-                if (lastLine.length === 0) {
-                    targetStartChar = expressionStartPos;
-                    targetEndChar = expressionStartPos;
-                } else {
-                    targetStartChar = expressionStartPos + lastLine.length - 1;
-                    targetEndChar = expressionStartPos + lastLine.length;
-                }
-            } else {
-                // Multi-line expression
-                if (lastLine.length === 0) {
-                    targetStartChar = 0;
-                    targetEndChar = 0;
-                } else {
-                    targetStartChar = lastLine.length - 1;
-                    targetEndChar = lastLine.length;
-                }
-            }
+            const problems = this.validator.validate(expression.text, { functionAllowlist, lintRules, maxNumberOfProblems });
+            diagnostics.push(...problems.map(problem => this.toDiagnostic(problem, new vscode.Range(
+                document.positionAt(toDocumentOffset(expression, problem.line, problem.startChar)),
+                document.positionAt(toDocumentOffset(expression, problem.line, problem.endChar))
+            ))));
         }
 
-        return {
-            line: targetLine,
-            startChar: Math.max(0, targetStartChar),
-            endChar: Math.max(targetStartChar, targetEndChar)
-        };
+        return diagnostics.slice(0, maxNumberOfProblems);
     }
 
     /**
-     * Adjust error position for common error patterns
+     * Gets the lint rule settings of a document: the `lint.rules` setting, overridden by the nearest `.jsonatalintrc`
      */
-    private adjustErrorPositionForCommonPatterns(
-        expression: string,
-        errorPosition: number,
-        errorToken: string,
-        expressionLines: string[],
-        currentLineIndex: number,
-        charPositionInLine: number
-    ): { lineIndex: number; startChar: number; endChar: number } | null {
-
-        // Pattern 1: "}" cannot be used as a unary operator - likely trailing comma
-        if (errorToken === '}' && currentLineIndex > 0) {
-            const currentLine = expressionLines[currentLineIndex];
-            const previousLine = expressionLines[currentLineIndex - 1];
-
-            // Check if current line is just whitespace + "}" and previous line ends with ","
-            if (currentLine.trim() === '}' && previousLine.trim().endsWith(',')) {
-                // Highlight the trailing comma on the previous line
-                const commaPosition = previousLine.lastIndexOf(',');
-                if (commaPosition >= 0) {
-                    return {
-                        lineIndex: currentLineIndex - 1,
-                        startChar: commaPosition,
-                        endChar: commaPosition + 1
-                    };
-                }
-            }
-        }
-
-        // Pattern 2: "]" cannot be used as a unary operator - likely trailing comma in array
-        if (errorToken === ']' && currentLineIndex > 0) {
-            const currentLine = expressionLines[currentLineIndex];
-            const previousLine = expressionLines[currentLineIndex - 1];
-
-            // Check if current line is just whitespace + "]" and previous line ends with ","
-            if (currentLine.trim() === ']' && previousLine.trim().endsWith(',')) {
-                // Highlight the trailing comma on the previous line
-                const commaPosition = previousLine.lastIndexOf(',');
-                if (commaPosition >= 0) {
-                    return {
-                        lineIndex: currentLineIndex - 1,
-                        startChar: commaPosition,
-                        endChar: commaPosition + 1
-                    };
-                }
-            }
+    private getLintRules(document: vscode.TextDocument): LintRulesConfig {
+        const configured = this.lintConfigLoader.checkRules(
+            vscode.workspace.getConfiguration('jsonataValidator', document.uri).get<LintRulesConfig>('lint.rules', {}),
+            'jsonataValidator.lint.rules'
+        );
+        if (document.isUntitled || document.uri.scheme !== 'file') {
+            return configured;
         }
 
-        return null;
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        return { ...configured, ...this.lintConfigLoader.load(document.uri.fsPath, workspaceFolder?.uri.fsPath) };
     }
 
     /**
-     * Calculate the error range in the document
+     * Create a diagnostic from a problem, moving it to the selection it was found in
      */
-    private calculateErrorRange(
-        document: vscode.TextDocument,
-        lineIndex: number,
-        startPos: number,
-        endPos: number,
-        offset?: vscode.Position
-    ): vscode.Range {
-        // Calculate the actual line and character positions
-        let actualLineIndex = lineIndex;
-        let startCharacter = startPos;
-        let endCharacter = endPos;
+    private createDiagnostic(problem: ValidationProblem, offset?: vscode.Position): vscode.Diagnostic {
+        let line = problem.line;
+        let startCharacter = problem.startChar;
+        let endCharacter = problem.endChar;
 
         // Apply offset if provided (for selections)
         if (offset) {
-            actualLineIndex = offset.line + lineIndex;
+            line = offset.line + problem.line;
 
             // For multi-line selections, only add offset character on the first line
-            if (lineIndex === 0) {
-                startCharacter = offset.character + startPos;
-                endCharacter = offset.character + endPos;
+            if (problem.line === 0) {
+                startCharacter = offset.character + problem.startChar;
+                endCharacter = offset.character + problem.endChar;
             }
             // For subsequent lines, use positions as-is since they're relative to line start
         }
 
-        // Ensure we don't go beyond the document bounds
-        const maxLines = document.lineCount;
-        actualLineIndex = Math.min(actualLineIndex, maxLines - 1);
-
-        // Get the actual line to ensure we don't exceed line length
-        const documentLine = document.lineAt(actualLineIndex);
-        const lineLength = documentLine.text.length;
-
-        // Clamp positions to valid ranges
-        startCharacter = Math.max(0, Math.min(startCharacter, lineLength));
-        endCharacter = Math.max(startCharacter, Math.min(endCharacter, lineLength));
+        return this.toDiagnostic(problem, new vscode.Range(line, startCharacter, line, endCharacter));
+    }
 
-        // Handle edge cases for positioning
-        if (startCharacter >= lineLength && lineLength > 0) {
-            // Error is beyond the line content, position at the last character
-            startCharacter = lineLength - 1;
-            endCharacter = lineLength;
-        } else if (startCharacter >= lineLength && lineLength === 0) {
-            // Empty line case
-            startCharacter = 0;
-            endCharacter = 0;
-        } else if (endCharacter > lineLength) {
-            // End position extends beyond line, clamp to line end
-            endCharacter = lineLength;
+    private toDiagnostic(problem: ValidationProblem, range: vscode.Range): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, problem.message, SEVERITIES[problem.severity]);
+        diagnostic.source = problem.source;
+        if (problem.code) {
+            diagnostic.code = problem.code;
         }
-
-        // Ensure endCharacter is never less than startCharacter
-        endCharacter = Math.max(startCharacter, endCharacter);
-
-        return new vscode.Range(
-            new vscode.Position(actualLineIndex, startCharacter),
-            new vscode.Position(actualLineIndex, endCharacter)
-        );
+        if (problem.unnecessary) {
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+        return diagnostic;
     }
 }
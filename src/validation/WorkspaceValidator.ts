@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { FileDocument } from './FileDocument';
+import { ValidationService } from './ValidationService';
+
+const EXCLUDED_FILES = '**/node_modules/**';
+
+/**
+ * What a workspace validation run found
+ */
+export interface WorkspaceValidationSummary {
+    files: number;
+    errors: number;
+    warnings: number;
+    cancelled: boolean;
+}
+
+/**
+ * Validates the JSONata files of the workspace that are not open, so that their problems stay in the
+ * Problems panel. Open documents are validated as they are edited; their entries here are dropped
+ * while they are open and brought back from disk when they are closed.
+ *
+ * The files are those matching `workspaceValidation.include`, plus JSON and YAML files when the
+ * `embedded` settings pick expressions out of them. In background mode, file system watchers
+ * keep the entries up to date as files change on disk.
+ */
+export class WorkspaceValidator implements vscode.Disposable {
+    private diagnosticCollection = vscode.languages.createDiagnosticCollection('jsonata-workspace');
+    /** The files found by the last run or the watchers, by URI */
+    private files = new Map<string, vscode.Uri>();
+    private watchers: vscode.Disposable[] = [];
+
+    constructor(private validationService: ValidationService) {}
+
+    /**
+     * Validates the workspace behind a notification that shows progress and can cancel the run
+     */
+    public async validateWorkspaceWithProgress(): Promise<void> {
+        const summary = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Validating JSONata files',
+            cancellable: true
+        }, (progress, token) => this.validateWorkspace(progress, token));
+
+        if (summary.files === 0) {
+            vscode.window.showInformationMessage('No JSONata files found in the workspace');
+            return;
+        }
+
+        const counts = `${summary.errors} error${summary.errors === 1 ? '' : 's'}, ${summary.warnings} warning${summary.warnings === 1 ? '' : 's'}`;
+        if (summary.cancelled) {
+            vscode.window.showWarningMessage(`JSONata validation cancelled after ${summary.files} files: ${counts}`);
+        } else if (summary.errors > 0) {
+            vscode.window.showErrorMessage(`✗ Validated ${summary.files} JSONata files: ${counts}`);
+        } else {
+            vscode.window.showInformationMessage(`✓ Validated ${summary.files} JSONata files: ${counts}`);
+        }
+    }
+
+    /**
+     * Finds and validates the workspace files, dropping the entries of files that no longer match
+     */
+    public async validateWorkspace(
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<WorkspaceValidationSummary> {
+        const found = new Map<string, vscode.Uri>();
+        for (const pattern of this.getIncludePatterns()) {
+            for (const uri of await vscode.workspace.findFiles(pattern, EXCLUDED_FILES, undefined, token)) {
+                found.set(uri.toString(), uri);
+            }
+        }
+
+        for (const [key, uri] of this.files) {
+            if (!found.has(key)) {
+                this.remove(uri);
+            }
+        }
+
+        const summary: WorkspaceValidationSummary = { files: 0, errors: 0, warnings: 0, cancelled: false };
+        for (const uri of found.values()) {
+            if (token?.isCancellationRequested) {
+                summary.cancelled = true;
+                break;
+            }
+
+            progress?.report({ increment: 100 / found.size, message: vscode.workspace.asRelativePath(uri) });
+            await this.validateFile(uri);
+
+            // Open files count with the diagnostics their editor shows
+            const diagnostics = vscode.languages.getDiagnostics(uri);
+            summary.files++;
+            summary.errors += diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error).length;
+            summary.warnings += diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Warning).length;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Validates a file from disk, unless it is open
+     */
+    public async validateFile(uri: vscode.Uri): Promise<void> {
+        this.files.set(uri.toString(), uri);
+        if (this.isOpen(uri)) {
+            this.diagnosticCollection.delete(uri);
+            return;
+        }
+
+        const document = await FileDocument.read(uri);
+        // The file may have been opened or removed while it was read
+        if (!this.files.has(uri.toString()) || this.isOpen(uri)) {
+            return;
+        }
+
+        if (document) {
+            this.diagnosticCollection.set(uri, this.validationService.getDiagnostics(document));
+        } else {
+            this.diagnosticCollection.delete(uri);
+        }
+    }
+
+    /**
+     * Validates the files found before again, after a setting or lint configuration changed
+     */
+    public async revalidate(): Promise<void> {
+        for (const uri of [...this.files.values()]) {
+            await this.validateFile(uri);
+        }
+    }
+
+    /**
+     * Hands an opened document over to live validation
+     */
+    public onDidOpen(document: vscode.TextDocument): void {
+        this.diagnosticCollection.delete(document.uri);
+    }
+
+    /**
+     * Keeps the problems of a closed document, read back from disk
+     */
+    public onDidClose(document: vscode.TextDocument): void {
+        if (this.files.has(document.uri.toString())) {
+            void this.validateFile(document.uri);
+        }
+    }
+
+    /**
+     * Starts or stops watching the workspace files, validating them all when starting
+     */
+    public setBackgroundMode(enabled: boolean): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+        if (!enabled) {
+            return;
+        }
+
+        for (const pattern of this.getIncludePatterns()) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const validate = (uri: vscode.Uri) => {
+                if (!uri.path.includes('/node_modules/')) {
+                    void this.validateFile(uri);
+                }
+            };
+            this.watchers.push(
+                watcher,
+                watcher.onDidCreate(validate),
+                watcher.onDidChange(validate),
+                watcher.onDidDelete(uri => this.remove(uri))
+            );
+        }
+
+        void vscode.window.withProgress({ location: vscode.ProgressLocation.Window, title: 'Validating JSONata files' },
+            progress => this.validateWorkspace(progress));
+    }
+
+    public dispose(): void {
+        this.setBackgroundMode(false);
+        this.diagnosticCollection.dispose();
+        this.files.clear();
+    }
+
+    private remove(uri: vscode.Uri): void {
+        this.files.delete(uri.toString());
+        this.diagnosticCollection.delete(uri);
+    }
+
+    private isOpen(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        return vscode.workspace.textDocuments.some(document => !document.isClosed && document.uri.toString() === key);
+    }
+
+    private getIncludePatterns(): string[] {
+        const config = vscode.workspace.getConfiguration('jsonataValidator');
+        const patterns = [...config.get<string[]>('workspaceValidation.include', ['**/*.jsonata'])];
+        if (config.get<string[]>('embedded.json', []).length > 0) {
+            patterns.push('**/*.{json,jsonc}');
+        }
+        if (config.get<string[]>('embedded.yaml', []).length > 0) {
+            patterns.push('**/*.{yaml,yml}');
+        }
+        return [...new Set(patterns)];
+    }
+}
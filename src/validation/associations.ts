@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+/**
+ * A JSON file associated with a JSONata document
+ */
+export interface AssociatedJsonFile {
+    fsPath: string;
+    content: any;
+}
+
+export type AssociationTag = 'schema' | 'sample';
+
+/**
+ * A document to find associations for: its text and, when it is saved on disk, its path
+ * and the workspace folder it belongs to
+ */
+export interface AssociationDocument {
+    text: string;
+    fsPath?: string;
+    workspaceFolder?: string;
+}
+
+/**
+ * Finds an `@<tag> <path>` annotation inside the block comments of a document, e.g.
+ * `/* @schema ./schemas/order.schema.json *\/`, and returns the path as written
+ */
+export function findHeaderAssociation(text: string, tag: AssociationTag): string | undefined {
+    const commentRegex = /\/\*([\s\S]*?)\*\//g;
+    const tagRegex = new RegExp(`@${tag}\\s+(\\S+)`);
+    let match;
+
+    while ((match = commentRegex.exec(text)) !== null) {
+        const tagMatch = tagRegex.exec(match[1]);
+        if (tagMatch) {
+            return tagMatch[1];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Looks up a `{ "<glob>": "<path>" }` setting for a path relative to the workspace folder,
+ * returning the associated path as written
+ */
+export function findGlobAssociation(relativePath: string, associations: Record<string, string>): string | undefined {
+    const normalized = relativePath.split(path.sep).join('/');
+    for (const [glob, target] of Object.entries(associations)) {
+        if (minimatch(normalized, glob, { dot: true })) {
+            return target;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Finds the file associated with a document: a header comment first, resolved relative to the
+ * document, then the glob settings, resolved relative to the workspace folder
+ */
+export function findAssociatedFile(document: AssociationDocument, tag: AssociationTag, associations: Record<string, string>): string | undefined {
+    const header = findHeaderAssociation(document.text, tag);
+    if (header) {
+        return resolveAssociatedPath(header, document.fsPath ? path.dirname(document.fsPath) : document.workspaceFolder);
+    }
+
+    if (document.fsPath && document.workspaceFolder) {
+        const target = findGlobAssociation(path.relative(document.workspaceFolder, document.fsPath), associations);
+        if (target) {
+            return resolveAssociatedPath(target, document.workspaceFolder);
+        }
+    }
+
+    return undefined;
+}
+
+function resolveAssociatedPath(target: string, baseDirectory: string | undefined): string | undefined {
+    if (path.isAbsolute(target)) {
+        return target;
+    }
+    return baseDirectory ? path.resolve(baseDirectory, target) : undefined;
+}
+
+/**
+ * Looks for `orders.sample.json` next to `orders.jsonata`
+ */
+export function findSiblingSampleFile(documentPath: string): string | undefined {
+    const parsed = path.parse(documentPath);
+    const candidate = path.join(parsed.dir, `${parsed.name}.sample.json`);
+    return fs.existsSync(candidate) ? candidate : undefined;
+}
+
+/**
+ * Reads and parses JSON files, reusing the parsed content until a file changes
+ */
+export class JsonFileCache {
+    private cache = new Map<string, { mtime: number; content: any }>();
+
+    public load(fsPath: string): AssociatedJsonFile | undefined {
+        try {
+            const mtime = fs.statSync(fsPath).mtimeMs;
+            const cached = this.cache.get(fsPath);
+            if (cached && cached.mtime === mtime) {
+                return { fsPath, content: cached.content };
+            }
+
+            const content = JSON.parse(fs.readFileSync(fsPath, 'utf8'));
+            this.cache.set(fsPath, { mtime, content });
+            return { fsPath, content };
+        } catch (error) {
+            console.warn(`Failed to load associated JSON file ${fsPath}:`, error);
+            this.cache.delete(fsPath);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,826 @@
+/**
+ * Where JSONata expressions are embedded in other languages
+ */
+export interface EmbeddingRules {
+	/** JSONPath-style selectors of the JSON string values that are expressions, e.g. `$.mappings[*].expression` */
+	json: string[];
+	/** The same for YAML scalars */
+	yaml: string[];
+	/** Functions and template tags whose string argument is an expression in JavaScript and TypeScript, e.g. `jsonata` */
+	calls: string[];
+}
+
+export const DEFAULT_EMBEDDING_RULES: EmbeddingRules = {
+	json: [],
+	yaml: [],
+	calls: ['jsonata']
+};
+
+export type EmbeddingLanguage = 'json' | 'yaml' | 'script';
+
+const EMBEDDING_LANGUAGES: Record<string, EmbeddingLanguage> = {
+	json: 'json',
+	jsonc: 'json',
+	yaml: 'yaml',
+	javascript: 'script',
+	javascriptreact: 'script',
+	typescript: 'script',
+	typescriptreact: 'script'
+};
+
+/**
+ * An expression found in a string literal of another language
+ */
+export interface EmbeddedExpression {
+	/** The expression, with the host language's escapes decoded */
+	text: string;
+	/** The document offset of each character of `text`, followed by the offset just past its end */
+	offsets: number[];
+}
+
+/** A key or array index on the way from the root of a JSON or YAML document to a value */
+type PathStep = string | number;
+
+interface SelectorSegment {
+	/** `..name` matches at any depth, `.name` only directly below */
+	descendant: boolean;
+	name: PathStep | '*';
+}
+
+/**
+ * How JSONata embedded in documents of a VS Code language id is found, if it can be
+ */
+export function getEmbeddingLanguage(languageId: string): EmbeddingLanguage | undefined {
+	return EMBEDDING_LANGUAGES[languageId];
+}
+
+/**
+ * Finds the expressions embedded in a JSON, YAML, JavaScript or TypeScript document
+ */
+export function findEmbeddedExpressions(text: string, language: EmbeddingLanguage, rules: EmbeddingRules): EmbeddedExpression[] {
+	if (language === 'script') {
+		return rules.calls.length > 0 ? findCallArguments(text, new Set(rules.calls)) : [];
+	}
+
+	const selectors = (language === 'json' ? rules.json : rules.yaml).map(parseSelector);
+	if (selectors.length === 0) {
+		return [];
+	}
+
+	const expressions: EmbeddedExpression[] = [];
+	const visit = (path: PathStep[], expression: EmbeddedExpression) => {
+		if (selectors.some(selector => matchesSelector(path, selector))) {
+			expressions.push(expression);
+		}
+	};
+
+	if (language === 'json') {
+		scanJson(text, visit);
+	} else {
+		scanYaml(text, visit);
+	}
+	return expressions;
+}
+
+/**
+ * The document offset of a line and character within an embedded expression
+ */
+export function toDocumentOffset(expression: EmbeddedExpression, line: number, character: number): number {
+	let index = 0;
+	for (let current = 0; current < line; current++) {
+		const next = expression.text.indexOf('\n', index);
+		if (next === -1) {
+			break;
+		}
+		index = next + 1;
+	}
+	return expression.offsets[Math.min(index + character, expression.text.length)];
+}
+
+/**
+ * Parses `$.a.b`, `$..b`, `$.a[*].b`, `$['a b'][0]` and `a.b` (the `$.` is optional)
+ */
+function parseSelector(selector: string): SelectorSegment[] {
+	const segments: SelectorSegment[] = [];
+	let rest = selector.trim().replace(/^\$/, '');
+	if (rest && !/^[.[]/.test(rest)) {
+		rest = '.' + rest;
+	}
+
+	const segmentPattern = /^(\.\.|\.)?(?:([^.[\]]+)|\[\s*(?:(\*)|(\d+)|'([^']*)'|"([^"]*)")\s*\])/;
+	while (rest) {
+		const match = segmentPattern.exec(rest);
+		if (!match) {
+			break;
+		}
+		const [, dots, name, star, index, singleQuoted, doubleQuoted] = match;
+		const key = name ?? singleQuoted ?? doubleQuoted;
+		segments.push({
+			descendant: dots === '..',
+			name: star || key === '*' ? '*' : index !== undefined ? Number(index) : key
+		});
+		rest = rest.substring(match[0].length);
+	}
+
+	return segments;
+}
+
+function matchesSelector(path: PathStep[], segments: SelectorSegment[], pathIndex = 0, segmentIndex = 0): boolean {
+	if (segmentIndex === segments.length) {
+		return pathIndex === path.length;
+	}
+	if (pathIndex === path.length) {
+		return false;
+	}
+
+	const segment = segments[segmentIndex];
+	if ((segment.name === '*' || segment.name === path[pathIndex]) && matchesSelector(path, segments, pathIndex + 1, segmentIndex + 1)) {
+		return true;
+	}
+	return segment.descendant && matchesSelector(path, segments, pathIndex + 1, segmentIndex);
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+	n: '\n',
+	t: '\t',
+	r: '\r',
+	b: '\b',
+	f: '\f',
+	v: '\v',
+	0: '\0'
+};
+
+/**
+ * Decodes the quoted string starting at `start`: backslash escapes for `"`, `'` and `` ` ``, and `''`
+ * for single quotes when `doubledQuotes` is set, as in YAML. Returns undefined for an unterminated string
+ * and for template literals with `${}` substitutions, which cannot be validated on their own.
+ */
+function decodeQuotedString(text: string, start: number, doubledQuotes = false): { expression: EmbeddedExpression; end: number } | undefined {
+	const quote = text[start];
+	const backslashEscapes = !(doubledQuotes && quote === "'");
+	let decoded = '';
+	const offsets: number[] = [];
+
+	for (let index = start + 1; index < text.length; index++) {
+		const char = text[index];
+
+		if (char === quote) {
+			if (doubledQuotes && quote === "'" && text[index + 1] === "'") {
+				decoded += "'";
+				offsets.push(index++);
+				continue;
+			}
+			offsets.push(index);
+			return { expression: { text: decoded, offsets }, end: index + 1 };
+		}
+
+		if (char === '\n' && quote !== '`' && !doubledQuotes) {
+			return undefined;
+		}
+
+		if (quote === '`' && char === '$' && text[index + 1] === '{') {
+			return undefined;
+		}
+
+		if (char !== '\\' || !backslashEscapes) {
+			decoded += char;
+			offsets.push(index);
+			continue;
+		}
+
+		const escapeStart = index;
+		const next = text[++index];
+		let value: string;
+		if (next === '\r' || next === '\n') {
+			// A line continuation
+			if (next === '\r' && text[index + 1] === '\n') {
+				index++;
+			}
+			continue;
+		} else if (next === 'u' && text[index + 1] === '{') {
+			const close = text.indexOf('}', index);
+			value = String.fromCodePoint(parseInt(text.substring(index + 2, close), 16) || 0);
+			index = close;
+		} else if (next === 'u' || next === 'x') {
+			const length = next === 'u' ? 4 : 2;
+			value = String.fromCharCode(parseInt(text.substr(index + 1, length), 16) || 0);
+			index += length;
+		} else {
+			value = SIMPLE_ESCAPES[next] ?? next ?? '';
+		}
+
+		decoded += value;
+		for (let unit = 0; unit < value.length; unit++) {
+			offsets.push(escapeStart);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Visits the string values of JSON (with comments and trailing commas, as in `jsonc`) along with their paths.
+ * Stops at the first syntax error.
+ */
+function scanJson(text: string, visit: (path: PathStep[], expression: EmbeddedExpression) => void): void {
+	const syntaxError = new Error('Invalid JSON');
+	let index = 0;
+
+	const skipTrivia = () => {
+		while (index < text.length) {
+			if (/\s/.test(text[index])) {
+				index++;
+			} else if (text.startsWith('//', index)) {
+				const end = text.indexOf('\n', index);
+				index = end === -1 ? text.length : end + 1;
+			} else if (text.startsWith('/*', index)) {
+				const end = text.indexOf('*/', index + 2);
+				index = end === -1 ? text.length : end + 2;
+			} else {
+				return;
+			}
+		}
+	};
+
+	const readString = () => {
+		const decoded = text[index] === '"' ? decodeQuotedString(text, index) : undefined;
+		if (!decoded) {
+			throw syntaxError;
+		}
+		index = decoded.end;
+		return decoded.expression;
+	};
+
+	const expect = (char: string) => {
+		skipTrivia();
+		if (text[index] !== char) {
+			throw syntaxError;
+		}
+		index++;
+	};
+
+	const readValue = (path: PathStep[]): void => {
+		skipTrivia();
+		const char = text[index];
+
+		if (char === '{' || char === '[') {
+			const close = char === '{' ? '}' : ']';
+			index++;
+			for (let item = 0; ; item++) {
+				skipTrivia();
+				if (text[index] === close) {
+					index++;
+					return;
+				}
+				if (char === '{') {
+					const key = readString().text;
+					expect(':');
+					readValue([...path, key]);
+				} else {
+					readValue([...path, item]);
+				}
+				skipTrivia();
+				if (text[index] === ',') {
+					index++;
+				} else if (text[index] !== close) {
+					throw syntaxError;
+				}
+			}
+		}
+
+		if (char === '"') {
+			visit(path, readString());
+			return;
+		}
+
+		const literal = /^[^\s,\]}]+/.exec(text.substring(index, index + 64));
+		if (!literal) {
+			throw syntaxError;
+		}
+		index += literal[0].length;
+	};
+
+	try {
+		readValue([]);
+	} catch (error) {
+		if (error !== syntaxError) {
+			throw error;
+		}
+	}
+}
+
+/** A mapping key or sequence item whose value is given by the lines indented below it */
+interface YamlNode {
+	indent: number;
+	path: PathStep[];
+	/** The next item index of the sequence at this indent */
+	nextIndex?: number;
+	/** A key with nothing after its colon, whose value may be a sequence at its own indent */
+	awaitingValue?: boolean;
+}
+
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#&*!|>%@`{[\]}][^#]*?)\s*:(?=\s|$)/;
+
+/** Anchors (`&name`) and tags (`!tag`) in front of a value */
+const YAML_PROPERTIES = /^(?:[&!]\S*(?:\s+|$))*/;
+
+/**
+ * Visits the scalars of YAML along with their paths: plain, quoted and `|` / `>` block scalars, in block
+ * and flow (`{}`, `[]`) collections. Anchors and tags are skipped over. Aliases (`*name`) are not followed,
+ * since the values they refer to are visited where they are anchored.
+ */
+function scanYaml(text: string, visit: (path: PathStep[], expression: EmbeddedExpression) => void): void {
+	const lineStarts = [0];
+	for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+		lineStarts.push(index + 1);
+	}
+	const getLine = (lineIndex: number) => {
+		const end = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : text.length;
+		return text.substring(lineStarts[lineIndex], end).replace(/\r$/, '');
+	};
+
+	let stack: YamlNode[] = [];
+	let lineIndex = 0;
+
+	// The index of the first line starting after `offset`
+	const lineAfter = (offset: number): number => {
+		let next = lineIndex + 1;
+		while (next < lineStarts.length && lineStarts[next] < offset) {
+			next++;
+		}
+		return next;
+	};
+
+	// Reads the value at `column` of the current line, returning the index of the next line to read
+	const readValue = (path: PathStep[], indent: number, column: number): number => {
+		const line = getLine(lineIndex);
+		const value = line.substring(column);
+		const valueStart = lineStarts[lineIndex] + column;
+
+		if (value.startsWith('"') || value.startsWith("'")) {
+			const decoded = decodeQuotedString(text, valueStart, true);
+			if (!decoded) {
+				return lineIndex + 1;
+			}
+			visit(path, decoded.expression);
+			return lineAfter(decoded.end);
+		}
+
+		if (/^[|>][-+0-9]*\s*(#.*)?$/.test(value)) {
+			return readBlockScalar(path, indent, value.startsWith('>'));
+		}
+
+		if (value.startsWith('{') || value.startsWith('[')) {
+			const end = scanYamlFlow(text, valueStart, path, visit);
+			return end === undefined ? lineIndex + 1 : lineAfter(end);
+		}
+
+		if (value.startsWith('*')) {
+			return lineIndex + 1;
+		}
+
+		// A plain scalar continues on the following lines indented further than its key, which are
+		// folded into one line
+		let plain = value.replace(/\s+#.*$/, '').trimEnd();
+		const offsets = Array.from({ length: plain.length }, (_, index) => valueStart + index);
+		let next = lineIndex + 1;
+		for (; next < lineStarts.length; next++) {
+			const line = getLine(next);
+			const content = line.trim().replace(/\s+#.*$/, '');
+			if (!content || content.startsWith('#') || line.length - line.trimStart().length <= indent) {
+				break;
+			}
+			const contentStart = lineStarts[next] + line.indexOf(content);
+			plain += ' ' + content;
+			offsets.push(lineStarts[next] - 1, ...Array.from({ length: content.length }, (_, index) => contentStart + index));
+		}
+		offsets.push(offsets[offsets.length - 1] + 1);
+		visit(path, { text: plain, offsets });
+		return next;
+	};
+
+	const readBlockScalar = (path: PathStep[], indent: number, folded: boolean): number => {
+		let next = lineIndex + 1;
+		let blockIndent = -1;
+		let decoded = '';
+		const offsets: number[] = [];
+		// The line breaks since the last line with content, at the offsets of their newlines
+		let breaks: number[] = [];
+		let previousMoreIndented = false;
+
+		for (; next < lineStarts.length; next++) {
+			const line = getLine(next);
+			const lineIndent = line.length - line.trimStart().length;
+			if (line.trim() && lineIndent <= indent) {
+				break;
+			}
+			if (next > lineIndex + 1) {
+				breaks.push(lineStarts[next] - 1);
+			}
+			if (!line.trim()) {
+				continue;
+			}
+			if (blockIndent === -1) {
+				blockIndent = lineIndent;
+			}
+
+			// A folded scalar joins lines with a space, or with the line breaks of the empty lines between
+			// them, but keeps the line breaks around lines that are indented further
+			const moreIndented = lineIndent > blockIndent;
+			if (folded && offsets.length > 0 && !moreIndented && !previousMoreIndented) {
+				if (breaks.length === 1) {
+					decoded += ' ';
+					offsets.push(breaks[0]);
+				}
+				breaks = breaks.slice(1);
+			}
+			for (const offset of breaks) {
+				decoded += '\n';
+				offsets.push(offset);
+			}
+			breaks = [];
+			previousMoreIndented = moreIndented;
+
+			const contentStart = Math.min(blockIndent, lineIndent);
+			for (let index = contentStart; index < line.length; index++) {
+				offsets.push(lineStarts[next] + index);
+			}
+			decoded += line.substring(contentStart);
+		}
+
+		const trimmed = decoded.trimEnd();
+		offsets.length = trimmed.length;
+		offsets.push(trimmed.length > 0 ? offsets[trimmed.length - 1] + 1 : lineStarts[lineIndex + 1] ?? text.length);
+		visit(path, { text: trimmed, offsets });
+		return next;
+	};
+
+	// Reads the entry at `column` of the current line, a key, a sequence item or a scalar
+	const readEntry = (column: number): number => {
+		const line = getLine(lineIndex);
+		const content = line.substring(column);
+		const isItem = content === '-' || content.startsWith('- ');
+
+		while (stack.length > 0) {
+			const top = stack[stack.length - 1];
+			const keepsSequence = isItem && top.indent === column && (top.nextIndex !== undefined || top.awaitingValue);
+			if (top.indent < column || keepsSequence) {
+				break;
+			}
+			stack.pop();
+		}
+		const parent = stack[stack.length - 1];
+		const parentPath = parent?.path ?? [];
+
+		if (isItem) {
+			let sequence = parent;
+			if (!sequence || sequence.indent !== column || sequence.nextIndex === undefined) {
+				sequence = { indent: column, path: parentPath, nextIndex: 0 };
+				stack.push(sequence);
+			}
+			const itemPath = [...parentPath, sequence.nextIndex!++];
+			stack.push({ indent: column, path: itemPath });
+
+			const rest = content.substring(1);
+			let restColumn = column + 1 + (rest.length - rest.trimStart().length);
+			restColumn += YAML_PROPERTIES.exec(line.substring(restColumn))![0].length;
+			const itemValue = line.substring(restColumn);
+			if (!itemValue.trim() || itemValue.startsWith('#')) {
+				return lineIndex + 1;
+			}
+			return YAML_KEY.test(itemValue) ? readEntry(restColumn) : readValue(itemPath, column, restColumn);
+		}
+
+		const key = YAML_KEY.exec(content);
+		if (!key) {
+			// The value of the key on the line above, or the whole document
+			if (!parent || (parent.awaitingValue && parent.indent < column)) {
+				const valueColumn = column + YAML_PROPERTIES.exec(content)![0].length;
+				if (!line.substring(valueColumn).trim() || line[valueColumn] === '#') {
+					return lineIndex + 1;
+				}
+				if (parent) {
+					parent.awaitingValue = false;
+				}
+				return readValue(parentPath, parent?.indent ?? -1, valueColumn);
+			}
+			return lineIndex + 1;
+		}
+
+		const name = /^["']/.test(key[1])
+			? decodeQuotedString(key[1], 0, true)?.expression.text ?? key[1]
+			: key[1];
+		const path = [...parentPath, name];
+		const afterKey = content.substring(key[0].length);
+		let valueColumn = column + key[0].length + (afterKey.length - afterKey.trimStart().length);
+		valueColumn += YAML_PROPERTIES.exec(line.substring(valueColumn))![0].length;
+		const value = line.substring(valueColumn);
+
+		if (!value.trim() || value.startsWith('#')) {
+			stack.push({ indent: column, path, awaitingValue: true });
+			return lineIndex + 1;
+		}
+		stack.push({ indent: column, path });
+		return readValue(path, column, valueColumn);
+	};
+
+	while (lineIndex < lineStarts.length) {
+		const line = getLine(lineIndex);
+		const trimmed = line.trim();
+
+		if (/^(---|\.\.\.)(\s|$)/.test(line)) {
+			stack = [];
+			lineIndex++;
+		} else if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('%')) {
+			lineIndex++;
+		} else {
+			lineIndex = readEntry(line.length - line.trimStart().length);
+		}
+	}
+}
+
+/**
+ * Visits the scalars of the YAML flow collection (`{ key: value }` or `[item, ...]`) at `start`, which may
+ * span several lines. Returns the offset just past it, or undefined when it is not closed or not valid.
+ */
+function scanYamlFlow(text: string, start: number, path: PathStep[], visit: (path: PathStep[], expression: EmbeddedExpression) => void): number | undefined {
+	const syntaxError = new Error('Invalid YAML flow collection');
+	let index = start;
+
+	const skipTrivia = () => {
+		while (index < text.length) {
+			if (/\s/.test(text[index])) {
+				index++;
+			} else if (text[index] === '#') {
+				const end = text.indexOf('\n', index);
+				index = end === -1 ? text.length : end;
+			} else {
+				return;
+			}
+		}
+	};
+
+	// Skips the anchors and tags in front of a node
+	const skipProperties = () => {
+		while (text[index] === '&' || text[index] === '!') {
+			while (index < text.length && !/[\s,[\]{}]/.test(text[index])) {
+				index++;
+			}
+			skipTrivia();
+		}
+	};
+
+	// Reads a quoted or plain scalar, returning undefined for an empty plain scalar. The line breaks in a
+	// plain scalar are folded as in block scalars.
+	const readScalar = (): EmbeddedExpression | undefined => {
+		if (text[index] === '"' || text[index] === "'") {
+			const decoded = decodeQuotedString(text, index, true);
+			if (!decoded) {
+				throw syntaxError;
+			}
+			index = decoded.end;
+			return decoded.expression;
+		}
+
+		let plain = '';
+		const offsets: number[] = [];
+		const trimEnd = () => {
+			while (/\s$/.test(plain)) {
+				plain = plain.slice(0, -1);
+				offsets.pop();
+			}
+		};
+
+		for (; index < text.length && !/[,[\]{}]/.test(text[index]); index++) {
+			const char = text[index];
+			if ((char === ':' && /^[\s,[\]{}]?$/.test(text[index + 1] ?? '')) || (char === '#' && /\s/.test(text[index - 1]))) {
+				break;
+			}
+			if (char !== '\n') {
+				plain += char;
+				offsets.push(index);
+				continue;
+			}
+
+			trimEnd();
+			const lineBreaks: number[] = [];
+			for (; /\s/.test(text[index] ?? ''); index++) {
+				if (text[index] === '\n') {
+					lineBreaks.push(index);
+				}
+			}
+			index--;
+			if (lineBreaks.length === 1) {
+				plain += ' ';
+				offsets.push(lineBreaks[0]);
+			}
+			for (const offset of lineBreaks.slice(1)) {
+				plain += '\n';
+				offsets.push(offset);
+			}
+		}
+
+		trimEnd();
+		if (!plain) {
+			return undefined;
+		}
+		offsets.push(offsets[offsets.length - 1] + 1);
+		return { text: plain, offsets };
+	};
+
+	const readNode = (nodePath: PathStep[]): void => {
+		skipTrivia();
+		skipProperties();
+		if (text[index] === '{' || text[index] === '[') {
+			readCollection(nodePath);
+		} else if (text[index] === '*') {
+			while (index < text.length && !/[\s,[\]{}]/.test(text[index])) {
+				index++;
+			}
+		} else {
+			const scalar = readScalar();
+			if (scalar) {
+				visit(nodePath, scalar);
+			}
+		}
+	};
+
+	const readCollection = (collectionPath: PathStep[]): void => {
+		const close = text[index] === '{' ? '}' : ']';
+		index++;
+		for (let item = 0; ; item++) {
+			skipTrivia();
+			if (text[index] === close) {
+				index++;
+				return;
+			}
+
+			if (close === '}') {
+				skipProperties();
+				const key = readScalar();
+				if (!key) {
+					throw syntaxError;
+				}
+				skipTrivia();
+				// A key without a value, as in `{ a, b }`, is null
+				if (text[index] === ':') {
+					index++;
+					readNode([...collectionPath, key.text]);
+				}
+			} else {
+				readNode([...collectionPath, item]);
+			}
+
+			skipTrivia();
+			if (text[index] === ',') {
+				index++;
+			} else if (text[index] !== close) {
+				throw syntaxError;
+			}
+		}
+	};
+
+	try {
+		readCollection(path);
+		return index;
+	} catch (error) {
+		if (error !== syntaxError) {
+			throw error;
+		}
+		return undefined;
+	}
+}
+
+/** Keywords after which a `/` starts a regular expression rather than a division */
+const KEYWORDS_BEFORE_REGEX = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+/**
+ * Finds `name("...")`, `name('...')`, ``name(`...`)`` and ``name`...` `` in JavaScript and TypeScript,
+ * where the string is the whole first argument. Comments, other strings and regular expressions are skipped.
+ */
+function findCallArguments(text: string, names: Set<string>): EmbeddedExpression[] {
+	const expressions: EmbeddedExpression[] = [];
+	let index = 0;
+	// Whether a `/` here starts a regular expression: where an operand is expected, not after one
+	let regexAllowed = true;
+
+	const skipTrivia = (from: number) => {
+		let position = from;
+		while (position < text.length) {
+			if (/\s/.test(text[position])) {
+				position++;
+			} else if (text.startsWith('//', position)) {
+				const end = text.indexOf('\n', position);
+				position = end === -1 ? text.length : end + 1;
+			} else if (text.startsWith('/*', position)) {
+				const end = text.indexOf('*/', position + 2);
+				position = end === -1 ? text.length : end + 2;
+			} else {
+				break;
+			}
+		}
+		return position;
+	};
+
+	while (index < text.length) {
+		const char = text[index];
+
+		if (text.startsWith('//', index) || text.startsWith('/*', index)) {
+			index = skipTrivia(index);
+		} else if (char === '"' || char === "'" || char === '`') {
+			index = skipStringLiteral(text, index);
+			regexAllowed = false;
+		} else if (char === '/' && regexAllowed) {
+			index = skipRegexLiteral(text, index);
+			regexAllowed = false;
+		} else if (/[A-Za-z_$]/.test(char)) {
+			const identifier = /^[\w$]+/.exec(text.substring(index, index + 256))![0];
+			index += identifier.length;
+			regexAllowed = KEYWORDS_BEFORE_REGEX.has(identifier);
+			if (!names.has(identifier)) {
+				continue;
+			}
+
+			let argumentStart = skipTrivia(index);
+			const tagged = text[argumentStart] === '`';
+			if (!tagged) {
+				if (text[argumentStart] !== '(') {
+					continue;
+				}
+				argumentStart = skipTrivia(argumentStart + 1);
+				if (!/["'`]/.test(text[argumentStart] ?? '')) {
+					continue;
+				}
+			}
+
+			const decoded = decodeQuotedString(text, argumentStart);
+			if (!decoded) {
+				continue;
+			}
+			const after = text[skipTrivia(decoded.end)];
+			if (tagged || after === ')' || after === ',') {
+				expressions.push(decoded.expression);
+			}
+			index = decoded.end;
+			regexAllowed = false;
+		} else {
+			if (!/\s/.test(char)) {
+				regexAllowed = !/[\w)\]}]/.test(char);
+			}
+			index++;
+		}
+	}
+
+	return expressions;
+}
+
+/**
+ * The offset just past the regular expression literal starting at `start`, including its flags.
+ * A `/` inside a character class does not end it; an unterminated one ends at the end of its line.
+ */
+function skipRegexLiteral(text: string, start: number): number {
+	let inClass = false;
+
+	for (let index = start + 1; index < text.length; index++) {
+		const char = text[index];
+		if (char === '\\') {
+			index++;
+		} else if (char === '\n') {
+			return index;
+		} else if (char === '[') {
+			inClass = true;
+		} else if (char === ']') {
+			inClass = false;
+		} else if (char === '/' && !inClass) {
+			return index + 1 + /^[a-z]*/.exec(text.substring(index + 1, index + 9))![0].length;
+		}
+	}
+
+	return text.length;
+}
+
+/**
+ * The offset just past the string or template literal starting at `start`, including `${}` substitutions
+ */
+function skipStringLiteral(text: string, start: number): number {
+	const quote = text[start];
+	let depth = 0;
+
+	for (let index = start + 1; index < text.length; index++) {
+		const char = text[index];
+		if (char === '\\') {
+			index++;
+		} else if (quote === '`' && char === '$' && text[index + 1] === '{') {
+			depth++;
+			index++;
+		} else if (depth > 0 && char === '}') {
+			depth--;
+		} else if (depth === 0 && char === quote) {
+			return index + 1;
+		} else if (char === '\n' && quote !== '`') {
+			return index + 1;
+		}
+	}
+
+	return text.length;
+}
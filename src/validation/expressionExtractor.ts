@@ -1,74 +1,188 @@
-import * as vscode from 'vscode';
-import { isCompleteExpression, containsJsonataExpression as utilsContainsJsonataExpression } from '../utils/jsonataUtils';
+import { containsJsonataExpression as utilsContainsJsonataExpression } from '../utils/jsonataUtils';
+import { scanTokens, Token } from '../language/lexer';
+
+/** A line holding only `---` separates the expressions of a file */
+const SEPARATOR_LINE = /^[ \t]*---[ \t]*\r?$/;
 
 /**
- * Extract JSONata expressions from pure JSONata files
+ * Extract JSONata expressions from pure JSONata files.
+ *
+ * When the file has `---` separator lines, each section between them is one expression. Otherwise an
+ * expression ends at the end of a line where none of its brackets is left open. Both are decided on
+ * tokens, so quotes, brackets and `---` inside strings, comments, backtick names and regular expressions
+ * do not count. Comments outside expressions are skipped, including `//` comments, which run to the end
+ * of their line, whether they start it or follow an expression.
  */
 export function extractJsonataExpressionsFromPureJsonata(text: string): Array<{expression: string, line: number, startPos: number, endPos: number}> {
-	const expressions: Array<{expression: string, line: number, startPos: number, endPos: number}> = [];
-	const lines = text.split('\n');
+	const lineStarts = [0];
+	for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+		lineStarts.push(index + 1);
+	}
+	const getLine = (offset: number) => {
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const middle = Math.ceil((low + high) / 2);
+			if (lineStarts[middle] <= offset) {
+				low = middle;
+			} else {
+				high = middle - 1;
+			}
+		}
+		return low;
+	};
+
+	const separators = findSeparators(text, lineStarts);
+	const ranges = separators.length > 0 ? splitAtSeparators(text, separators) : splitAtLineEnds(text, getLine);
 
-	let currentExpression = '';
-	let expressionStartLine = -1;
-	let expressionStartPos = 0;
-	let inMultiLineExpression = false;
+	return ranges.map(({ start, end: tokenEnd }) => {
+		// An unterminated string or comment runs on to the end of its section
+		const end = start + text.substring(start, tokenEnd).trimEnd().length;
+		const line = getLine(start);
+		const endLine = getLine(end);
+		return {
+			expression: text.substring(start, end),
+			line,
+			startPos: start - lineStarts[line],
+			endPos: end - lineStarts[endLine]
+		};
+	});
+}
+
+interface TextRange {
+	start: number;
+	end: number;
+}
 
-	for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-		const line = lines[lineIndex];
-		const trimmedLine = line.trim();
+/**
+ * The `---` lines that are not inside a multi-line string, comment or name. An unterminated one,
+ * as while it is being typed, does not hide the separators after it.
+ */
+function findSeparators(text: string, lineStarts: number[]): TextRange[] {
+	const candidates = lineStarts
+		.map((start, index) => ({ start, end: index + 1 < lineStarts.length ? lineStarts[index + 1] - 1 : text.length }))
+		.filter(line => SEPARATOR_LINE.test(text.substring(line.start, line.end)));
+	if (candidates.length === 0) {
+		return [];
+	}
 
-		// Skip empty lines and comments when not in a multi-line expression
-		if (!inMultiLineExpression && (!trimmedLine || trimmedLine.startsWith('//') || trimmedLine.startsWith('/*'))) {
+	const separators: TextRange[] = [];
+	let sectionStart = 0;
+	for (const candidate of candidates) {
+		if (candidate.start < sectionStart) {
 			continue;
 		}
+		let overlapping = false;
+		for (const token of scanTokens(text, sectionStart, true, true)) {
+			if (token.start >= candidate.start) {
+				break;
+			}
+			overlapping ||= token.end > candidate.start && token.end < text.length;
+		}
+		if (!overlapping) {
+			separators.push(candidate);
+			sectionStart = candidate.end;
+		}
+	}
+	return separators;
+}
+
+function splitAtSeparators(text: string, separators: TextRange[]): TextRange[] {
+	const ranges: TextRange[] = [];
+	let sectionStart = 0;
+
+	for (const sectionEnd of [...separators.map(separator => separator.start), text.length]) {
+		const tokens = [...scanTokens(text.substring(0, sectionEnd), sectionStart, true, true)].filter(token => token.type !== 'comment');
+		if (tokens.length > 0) {
+			ranges.push({ start: tokens[0].start, end: tokens[tokens.length - 1].end });
+		}
+		sectionStart = separators.find(separator => separator.start === sectionEnd)?.end ?? text.length;
+	}
 
-		// Check if we're starting a new expression
-		if (!inMultiLineExpression && trimmedLine) {
-			currentExpression = trimmedLine;
-			expressionStartLine = lineIndex;
-			expressionStartPos = line.indexOf(trimmedLine);
-			inMultiLineExpression = !isCompleteExpression(trimmedLine);
-
-			if (!inMultiLineExpression) {
-				// Single line expression
-				expressions.push({
-					expression: trimmedLine,
-					line: lineIndex,
-					startPos: expressionStartPos,
-					endPos: expressionStartPos + trimmedLine.length
-				});
+	return ranges;
+}
+
+/**
+ * Ends an expression at the last token on a line when its brackets are balanced.
+ * The tokens of each expression are scanned afresh, so that a `/` at its start is read as a regex.
+ */
+function splitAtLineEnds(text: string, getLine: (offset: number) => number): TextRange[] {
+	const ranges: TextRange[] = [];
+	let position = 0;
+
+	while (position < text.length) {
+		let first: Token | undefined;
+		let last: Token | undefined;
+		let depth = 0;
+
+		for (const token of scanTokens(text, position, true, true)) {
+			if (token.type === 'comment') {
+				continue;
+			}
+			if (last && depth === 0 && getLine(token.start) > getLine(last.end)) {
+				break;
 			}
-		} else if (inMultiLineExpression) {
-			// Continue building multi-line expression
-			// Preserve original formatting for accurate position calculation
-			currentExpression += '\n' + line;
-
-			// Check if expression is now complete
-			if (isCompleteExpression(currentExpression)) {
-				expressions.push({
-					expression: currentExpression,
-					line: expressionStartLine,
-					startPos: expressionStartPos,
-					endPos: line.length // This will be recalculated properly in error handling
-				});
-
-				currentExpression = '';
-				inMultiLineExpression = false;
+
+			first ??= token;
+			last = token;
+			if (token.type === 'operator' && '([{'.includes(token.value)) {
+				depth++;
+			} else if (token.type === 'operator' && ')]}'.includes(token.value)) {
+				// A stray closing bracket ends up in its own expression's error rather than swallowing the rest
+				depth = Math.max(depth - 1, 0);
 			}
 		}
+
+		if (!first || !last) {
+			break;
+		}
+		ranges.push({ start: first.start, end: last.end });
+		position = last.end;
 	}
 
-	// Handle case where file ends with incomplete expression
-	if (inMultiLineExpression && currentExpression.trim()) {
-		expressions.push({
-			expression: currentExpression,
-			line: expressionStartLine,
-			startPos: expressionStartPos,
-			endPos: currentExpression.length
-		});
+	return ranges;
+}
+
+/**
+ * One of the expressions of JSONata text, located by offset and by line and character
+ */
+export interface LocatedExpression {
+	/** The expression, without surrounding whitespace */
+	text: string;
+	offset: number;
+	line: number;
+	character: number;
+	endLine: number;
+	endCharacter: number;
+}
+
+/**
+ * The expressions of JSONata text, split the same way the validator splits them
+ */
+export function locateJsonataExpressions(text: string): LocatedExpression[] {
+	const lineOffsets = [0];
+	for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+		lineOffsets.push(index + 1);
 	}
 
-	return expressions;
+	return extractJsonataExpressionsFromPureJsonata(text).map(expression => {
+		const lines = expression.expression.split('\n');
+		const endLine = expression.line + lines.length - 1;
+		const endCharacter = lines.length === 1
+			? expression.startPos + expression.expression.length
+			: lines[lines.length - 1].trimEnd().length;
+		const offset = lineOffsets[expression.line] + expression.startPos;
+		const end = lineOffsets[endLine] + endCharacter;
+
+		return {
+			text: text.substring(offset, end),
+			offset,
+			line: expression.line,
+			character: expression.startPos,
+			endLine,
+			endCharacter
+		};
+	});
 }
 
 /**
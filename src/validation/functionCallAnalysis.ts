@@ -0,0 +1,142 @@
+import { getBuiltinFunction, BUILTIN_FUNCTIONS } from '../language/builtinFunctions';
+import { CallNode, ExpressionNode, getChildren, LambdaNode } from '../language/parser';
+import { analyzeScopes, VariableBinding } from '../language/scopeAnalysis';
+import { getSignatureArity, parseSignature } from '../language/signatureParser';
+import { findSimilarNames } from '../utils/stringUtils';
+
+/**
+ * A function call that will fail, or very likely misbehave, at runtime
+ */
+export interface FunctionCallProblem {
+	kind: 'unknown-function' | 'wrong-arity';
+	/** Function name without the leading `$` */
+	name: string;
+	/** Range of the `$name` being called, within the expression source */
+	start: number;
+	end: number;
+	message: string;
+	/**
+	 * Whether jsonata itself rejects the call. Calling a lambda without a signature
+	 * with the wrong number of arguments is allowed, but rarely intended.
+	 */
+	fatal: boolean;
+}
+
+/**
+ * Check the function calls of a parsed expression against the built-in function table and
+ * the lambdas bound in the expression. Calls to names in `allowlist` (without `$`), which the
+ * runtime registers itself, are not checked. Arguments passed by `~>` are counted.
+ */
+export function findFunctionCallProblems(ast: ExpressionNode, allowlist: string[] = []): FunctionCallProblem[] {
+	const problems: FunctionCallProblem[] = [];
+	const analysis = analyzeScopes(ast);
+
+	// Lambdas by the offset of the variable they are bound to
+	const lambdas = new Map<number, LambdaNode>();
+	const collectLambdas = (node: ExpressionNode) => {
+		if (node.type === 'binary' && node.operator === ':=' && node.rhs.type === 'lambda') {
+			lambdas.set(node.lhs.start, node.rhs);
+		}
+		getChildren(node).forEach(collectLambdas);
+	};
+	collectLambdas(ast);
+
+	const boundNames = [...new Set(analysis.bindings.map(binding => binding.name))];
+
+	const checkCall = (call: CallNode, chained: boolean) => {
+		if (call.callee.type !== 'variable' || call.callee.value === '' || call.callee.value === '$') {
+			return;
+		}
+
+		const name = call.callee.value;
+		const reference = analysis.references.find(candidate => candidate.start === call.callee.start);
+		const argumentCount = call.args.length + (chained ? 1 : 0);
+		const location = { name, start: call.callee.start, end: call.callee.end };
+
+		if (reference?.binding) {
+			const problem = checkLambdaCall(reference.binding, lambdas, argumentCount);
+			if (problem) {
+				problems.push({ ...location, ...problem });
+			}
+			return;
+		}
+
+		const builtin = getBuiltinFunction(name);
+		if (builtin) {
+			const signature = parseSignature(builtin.signature);
+			const message = signature && describeArityProblem(name, getSignatureArity(signature), argumentCount);
+			if (message) {
+				problems.push({ ...location, kind: 'wrong-arity', message, fatal: true });
+			}
+			return;
+		}
+
+		if (allowlist.includes(name)) {
+			return;
+		}
+
+		let message = `Unknown function '$${name}'`;
+		const suggestions = findSimilarNames(name, [...boundNames, ...BUILTIN_FUNCTIONS.map(fn => fn.name)]);
+		if (suggestions.length > 0) {
+			message += `. Did you mean ${suggestions.map(suggestion => `'$${suggestion}'`).join(', ')}?`;
+		}
+		problems.push({ ...location, kind: 'unknown-function', message, fatal: true });
+	};
+
+	const visit = (node: ExpressionNode) => {
+		if (node.type === 'binary' && node.operator === '~>' && node.rhs.type === 'call') {
+			// The left-hand side is passed as the first argument
+			visit(node.lhs);
+			checkCall(node.rhs, true);
+			getChildren(node.rhs).forEach(visit);
+			return;
+		}
+		if (node.type === 'call') {
+			checkCall(node, false);
+		}
+		getChildren(node).forEach(visit);
+	};
+	visit(ast);
+
+	return problems;
+}
+
+/**
+ * Check a call to a variable bound in the expression. Only variables bound to a lambda are
+ * checked; parameters and other values may hold any function.
+ */
+function checkLambdaCall(
+	binding: VariableBinding,
+	lambdas: Map<number, LambdaNode>,
+	argumentCount: number
+): Pick<FunctionCallProblem, 'kind' | 'message' | 'fatal'> | undefined {
+	const lambda = binding.kind === 'assignment' ? lambdas.get(binding.start) : undefined;
+	if (!lambda) {
+		return undefined;
+	}
+
+	const signature = lambda.signature ? parseSignature(lambda.signature) : undefined;
+	const arity = signature
+		? getSignatureArity(signature)
+		: { min: lambda.parameters.length, max: lambda.parameters.length };
+	const message = describeArityProblem(binding.name, arity, argumentCount);
+
+	return message ? { kind: 'wrong-arity', message, fatal: signature !== undefined } : undefined;
+}
+
+function describeArityProblem(name: string, arity: { min: number; max: number }, argumentCount: number): string | undefined {
+	if (argumentCount >= arity.min && argumentCount <= arity.max) {
+		return undefined;
+	}
+
+	let expected: string;
+	if (arity.min === arity.max) {
+		expected = `${arity.min} argument${arity.min === 1 ? '' : 's'}`;
+	} else if (arity.max === Infinity) {
+		expected = `at least ${arity.min} argument${arity.min === 1 ? '' : 's'}`;
+	} else {
+		expected = `${arity.min} to ${arity.max} arguments`;
+	}
+
+	return `Function '$${name}' expects ${expected}, but is called with ${argumentCount}`;
+}
@@ -0,0 +1,174 @@
+/**
+ * Resolves field names against some description of the input data (a JSON Schema, a sample payload, ...).
+ *
+ * A context of `null` means "unknown" - nothing below it is checked.
+ */
+export interface PathResolver<T> {
+	/** Context for the root of the input document */
+	root(): T | null;
+	/** Context reached by selecting `name`, `null` if it cannot be known, `undefined` if it cannot exist */
+	child(context: T, name: string): T | null | undefined;
+	/** Context reached by the `*` wildcard */
+	wildcard(context: T): T | null;
+	/** Field names known to exist in a context, used for messages and suggestions */
+	keys(context: T): string[];
+}
+
+/**
+ * A path step that cannot match anything in the input data
+ */
+export interface UnresolvedPathStep {
+	name: string;
+	/** Offset of the first character of the step within the expression source */
+	start: number;
+	/** Offset just past the last character of the step within the expression source */
+	end: number;
+	/** Field names that are available at this position */
+	available: string[];
+}
+
+/**
+ * Walks a compiled JSONata AST and reports every field step that cannot be resolved.
+ * Only paths whose context can be traced back to the input are checked; anything under
+ * lambdas, variables (other than `$` and `$$`), descendant or parent operators is skipped.
+ */
+export function findUnresolvedPathSteps<T>(ast: any, source: string, resolver: PathResolver<T>): UnresolvedPathStep[] {
+	const unresolved: UnresolvedPathStep[] = [];
+	const root = resolver.root();
+
+	const walk = (node: any, context: T | null): void => {
+		if (!node || typeof node !== 'object') {
+			return;
+		}
+
+		switch (node.type) {
+			case 'path':
+				walkPath(node, context);
+				break;
+			case 'binary':
+			case 'apply':
+				walk(node.lhs, context);
+				walk(node.rhs, context);
+				break;
+			case 'bind':
+				walk(node.rhs, context);
+				break;
+			case 'unary':
+				if (node.value === '{') {
+					walkPairs(node.lhs, context);
+				} else if (node.value === '[') {
+					(node.expressions || []).forEach((expression: any) => walk(expression, context));
+				} else {
+					walk(node.expression, context);
+				}
+				break;
+			case 'function':
+			case 'partial':
+				(node.arguments || []).forEach((argument: any) => walk(argument, context));
+				break;
+			case 'condition':
+				walk(node.condition, context);
+				walk(node.then, context);
+				walk(node.else, context);
+				break;
+			case 'block':
+				(node.expressions || []).forEach((expression: any) => walk(expression, context));
+				break;
+			case 'lambda':
+				// Lambda bodies run against their arguments, not the surrounding context
+				walk(node.body, null);
+				break;
+			case 'transform':
+				walk(node.pattern, null);
+				walk(node.update, null);
+				walk(node.delete, null);
+				break;
+		}
+	};
+
+	const walkPairs = (pairs: any, context: T | null): void => {
+		if (!Array.isArray(pairs)) {
+			return;
+		}
+		for (const pair of pairs) {
+			walk(pair[0], context);
+			walk(pair[1], context);
+		}
+	};
+
+	const walkPath = (node: any, context: T | null): void => {
+		let current = context;
+
+		for (const step of node.steps || []) {
+			let next: T | null = null;
+
+			switch (step.type) {
+				case 'name':
+					if (current !== null) {
+						const resolved = resolver.child(current, String(step.value));
+						if (resolved === undefined) {
+							unresolved.push(createUnresolvedStep(step, source, resolver.keys(current)));
+						} else {
+							next = resolved;
+						}
+					}
+					break;
+				case 'wildcard':
+					next = current === null ? null : resolver.wildcard(current);
+					break;
+				case 'variable':
+					if (step.value === '') {
+						next = current;
+					} else if (step.value === '$') {
+						next = root;
+					}
+					break;
+				case 'sort':
+					for (const term of step.terms || []) {
+						walk(term.expression, current);
+					}
+					next = current;
+					break;
+				case 'descendant':
+				case 'parent':
+					break;
+				default:
+					// Function calls, blocks, constructors, ... are evaluated against the current context
+					walk(step, current);
+					break;
+			}
+
+			for (const stage of step.stages || []) {
+				if (stage.type === 'filter') {
+					walk(stage.expr, next);
+				}
+			}
+			for (const predicate of step.predicate || []) {
+				walk(predicate.expr, next);
+			}
+
+			current = next;
+		}
+
+		if (node.group) {
+			walkPairs(node.group.lhs, current);
+		}
+	};
+
+	walk(ast, root);
+	return unresolved;
+}
+
+/**
+ * Creates an unresolved step entry, working out where the name starts in the source.
+ * AST positions point just past the token, and quoted names carry their delimiters.
+ */
+function createUnresolvedStep(step: any, source: string, available: string[]): UnresolvedPathStep {
+	const name = String(step.value);
+	const end = typeof step.position === 'number' ? step.position : 0;
+	const lastChar = source.charAt(end - 1);
+	const quoted = lastChar === '`' || lastChar === '"' || lastChar === "'";
+	const start = Math.max(0, end - name.length - (quoted ? 2 : 0));
+
+	return { name, start, end, available };
+}
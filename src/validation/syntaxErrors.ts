@@ -0,0 +1,110 @@
+import jsonata from 'jsonata';
+
+/**
+ * A syntax error as jsonata reports it. `position` is the offset just after the offending token.
+ */
+export interface JsonataSyntaxError {
+	code?: string;
+	message: string;
+	position?: number;
+	token?: string;
+	value?: any;
+}
+
+/**
+ * jsonata's message templates for the errors its parser reports. It fills them in for the error it
+ * throws, but leaves the errors collected in recovery mode without a message.
+ */
+const MESSAGE_TEMPLATES: Record<string, string> = {
+	S0101: 'String literal must be terminated by a matching quote',
+	S0102: 'Number out of range: {{token}}',
+	S0103: 'Unsupported escape sequence: \\{{token}}',
+	S0104: 'The escape sequence \\u must be followed by 4 hex digits',
+	S0105: 'Quoted property name must be terminated with a backquote (`)',
+	S0106: 'Comment has no closing tag',
+	S0201: 'Syntax error: {{token}}',
+	S0202: 'Expected {{value}}, got {{token}}',
+	S0203: 'Expected {{value}} before end of expression',
+	S0204: 'Unknown operator: {{token}}',
+	S0205: 'Unexpected token: {{token}}',
+	S0206: 'Unknown expression type: {{token}}',
+	S0207: 'Unexpected end of expression',
+	S0208: 'Parameter {{value}} of function definition must be a variable name (start with $)',
+	S0209: 'A predicate cannot follow a grouping expression in a step',
+	S0210: 'Each step can only have one grouping expression',
+	S0211: 'The symbol {{token}} cannot be used as a unary operator',
+	S0212: 'The left side of := must be a variable name (start with $)',
+	S0213: 'The literal value {{value}} cannot be used as a step within a path expression',
+	S0214: 'The right side of {{token}} must be a variable name (start with $)',
+	S0215: 'A context variable binding must precede any predicates on a step',
+	S0216: 'A context variable binding must precede the \'order-by\' clause on a step',
+	S0217: 'The object representing the \'parent\' cannot be derived from this expression',
+	S0301: 'Empty regular expressions are not allowed',
+	S0302: 'No terminating / in regular expression',
+	S0401: 'Type parameters can only be applied to functions and arrays',
+	S0402: 'Choice groups containing parameterized types are not supported'
+};
+
+/**
+ * Compiles an expression, returning every syntax error jsonata's recovery mode finds in it,
+ * in order of position, or an empty array when it compiles.
+ *
+ * The error jsonata throws is always reported. Recovery mode then adds the errors after it, leaving
+ * out those caused by an earlier error: errors on the `(error)` node that replaced the broken part,
+ * and errors at the position of an error already reported, like "Unexpected end of expression"
+ * after a missing bracket.
+ */
+export function findSyntaxErrors(expression: string): JsonataSyntaxError[] {
+	let thrown: JsonataSyntaxError;
+	try {
+		jsonata(expression);
+		return [];
+	} catch (error: any) {
+		thrown = error;
+	}
+
+	let recovered: any[] | undefined;
+	try {
+		// `errors()` is missing from jsonata's type declarations
+		const compiled = jsonata(expression, { recover: true }) as jsonata.Expression & { errors(): any[] | undefined };
+		recovered = compiled.errors();
+	} catch {
+		// Errors found by the tokenizer or after parsing are thrown even when recovering,
+		// and recovery overflows the stack on some inputs, like `a := 1`
+	}
+
+	const errors: JsonataSyntaxError[] = [thrown];
+	for (const error of recovered ?? []) {
+		if (error.token === '(error)' || typeof error.position !== 'number') {
+			continue;
+		}
+
+		// Several brackets can be missing at the same position, but any other error there follows from the first
+		const reported = errors.filter(other => other.position === error.position);
+		if (reported.some(other => other.code !== error.code || (other.token === error.token && other.value === error.value))) {
+			continue;
+		}
+
+		errors.push({
+			code: error.code,
+			message: formatMessage(error),
+			position: error.position,
+			token: error.token,
+			value: error.value
+		});
+	}
+
+	return errors.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Fills in the message template of an error the way jsonata does for the error it throws
+ */
+function formatMessage(error: any): string {
+	const template = MESSAGE_TEMPLATES[error.code];
+	if (template === undefined) {
+		return error.message || 'JSONata syntax error';
+	}
+
+	return template.replace(/\{\{([^}]+)}}/g, (_match, field: string) => JSON.stringify(error[field]));
+}